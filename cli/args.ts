@@ -0,0 +1,147 @@
+import { parseArgs } from "node:util";
+import { logFormatSchema, severityLevelSchema, type LogFormatName, type SeverityLevel } from "@shared/schema";
+
+export type OutputFormat = "text" | "diff" | "json";
+
+export interface CliOptions {
+  // Read from stdin when undefined.
+  file?: string;
+  output: OutputFormat;
+  // When set, cleaning is done by the server at this URL instead of locally.
+  server?: string;
+  mode: "ai" | "rules";
+  format?: LogFormatName;
+  minLevel?: SeverityLevel;
+  similarityThreshold?: number;
+  redact: boolean;
+  failOn?: SeverityLevel;
+  // Deduplicate event by event as the input arrives instead of reading it whole.
+  stream: boolean;
+  windowSeconds: number;
+  maxFingerprints?: number;
+}
+
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export const USAGE = `Usage: errorlogcleaner [options] [file]
+
+Deduplicates and cleans a log read from a file, or from stdin when no file
+(or "-") is given, and writes the result to stdout.
+
+Options:
+  -o, --output <text|diff|json>  what to write: the cleaned log (default), a
+                                 unified diff, or JSON stats
+  -s, --server <url>             clean with a running server instead of locally
+                                 (also ERRORLOGCLEANER_SERVER)
+      --mode <ai|rules>          cleaning mode on the server (default: ai)
+      --format <format>          text, json, logfmt, syslog or clf (default: detected)
+      --min-level <level>        drop lines below trace, debug, info, warn, error or fatal
+      --similarity <0-1>         group near-duplicate messages into templates
+      --no-redact                send secrets to the server unmasked
+      --fail-on <level>          exit with 1 when the log has a line at or above this level
+      --stream                   deduplicate events as they arrive, writing each one
+                                 right away and a "… repeated N times in 30s" summary
+                                 when its repeats stop
+      --window <seconds>         with --stream, how long repeats are suppressed (default: 30)
+      --max-fingerprints <n>     with --stream, how many distinct events to remember
+                                 (default: 10000)
+  -h, --help                     show this help
+
+Exit codes:
+  0  the log was cleaned
+  1  the log has lines at or above the --fail-on level
+  2  invalid usage
+  3  the log could not be read or cleaned
+`;
+
+function parseEnum<T extends string>(name: string, value: string | undefined, allowed: readonly T[]): T | undefined {
+  if (value === undefined) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+// Returns undefined when help was requested.
+export function parseCliArgs(argv: string[], env: NodeJS.ProcessEnv = process.env): CliOptions | undefined {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        output: { type: "string", short: "o" },
+        server: { type: "string", short: "s" },
+        mode: { type: "string" },
+        format: { type: "string" },
+        "min-level": { type: "string" },
+        similarity: { type: "string" },
+        "no-redact": { type: "boolean" },
+        "fail-on": { type: "string" },
+        stream: { type: "boolean" },
+        window: { type: "string" },
+        "max-fingerprints": { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help) return undefined;
+  if (positionals.length > 1) {
+    throw new UsageError("Only one input file can be given");
+  }
+
+  let similarityThreshold: number | undefined;
+  if (values.similarity !== undefined) {
+    similarityThreshold = Number(values.similarity);
+    if (Number.isNaN(similarityThreshold) || similarityThreshold < 0 || similarityThreshold > 1) {
+      throw new UsageError("--similarity must be a number between 0 and 1");
+    }
+  }
+
+  const windowSeconds = values.window === undefined ? 30 : Number(values.window);
+  if (Number.isNaN(windowSeconds) || windowSeconds <= 0) {
+    throw new UsageError("--window must be a positive number of seconds");
+  }
+
+  let maxFingerprints: number | undefined;
+  if (values["max-fingerprints"] !== undefined) {
+    maxFingerprints = Number(values["max-fingerprints"]);
+    if (!Number.isInteger(maxFingerprints) || maxFingerprints < 1) {
+      throw new UsageError("--max-fingerprints must be a positive integer");
+    }
+  }
+
+  const output = parseEnum("output", values.output, ["text", "diff", "json"] as const) ?? "text";
+  const server = values.server ?? (env.ERRORLOGCLEANER_SERVER || undefined);
+  if (values.stream) {
+    if (values.server) throw new UsageError("--stream cannot be combined with --server");
+    if (output === "diff") throw new UsageError("--stream cannot write a diff");
+    if (similarityThreshold !== undefined) throw new UsageError("--stream cannot be combined with --similarity");
+  }
+
+  const file = positionals[0];
+  return {
+    file: file === "-" ? undefined : file,
+    output,
+    // A server from the environment is ignored when streaming.
+    server: values.stream ? undefined : server,
+    mode: parseEnum("mode", values.mode, ["ai", "rules"] as const) ?? "ai",
+    format: parseEnum("format", values.format, logFormatSchema.options),
+    minLevel: parseEnum("min-level", values["min-level"], severityLevelSchema.options),
+    similarityThreshold,
+    redact: !values["no-redact"],
+    failOn: parseEnum("fail-on", values["fail-on"], severityLevelSchema.options),
+    stream: values.stream ?? false,
+    windowSeconds,
+    maxFingerprints,
+  };
+}
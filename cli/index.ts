@@ -0,0 +1,196 @@
+import { createReadStream } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { createTwoFilesPatch } from "diff";
+import { buildCleanReport, prepareLog } from "@shared/pipeline";
+import { redactLog, rehydrate } from "@shared/redaction";
+import { lineSeverities, severityRank } from "@shared/severity";
+import { streamDedup } from "@shared/streaming";
+import {
+  cleanLogResultSchema,
+  type ErrorGroup,
+  type LogFormatName,
+  type RemovedRange,
+  type SeverityLevel,
+} from "@shared/schema";
+import { parseCliArgs, USAGE, UsageError, type CliOptions } from "./args";
+
+const EXIT_OK = 0;
+const EXIT_FAIL_ON = 1;
+const EXIT_USAGE = 2;
+const EXIT_ERROR = 3;
+
+interface CleanOutcome {
+  cleaned: string;
+  format: LogFormatName;
+  removed: RemovedRange[];
+  groups: ErrorGroup[];
+  provider: string;
+}
+
+async function readInput(file: string | undefined): Promise<string> {
+  if (file !== undefined) return readFile(file, "utf8");
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function cleanLocally(log: string, options: CliOptions): CleanOutcome {
+  const prepared = prepareLog(log, {
+    stripNoise: true,
+    format: options.format,
+    minLevel: options.minLevel,
+    similarityThreshold: options.similarityThreshold,
+  });
+  return {
+    cleaned: prepared.text,
+    format: prepared.format,
+    ...buildCleanReport(prepared, prepared.text),
+    provider: "rules",
+  };
+}
+
+// Secrets are masked before the log is sent and restored in the response.
+async function cleanOnServer(server: string, log: string, options: CliOptions): Promise<CleanOutcome> {
+  const redaction = options.redact ? redactLog(log) : { text: log, redactions: [] };
+  const restore = (text: string) => rehydrate(text, redaction.redactions);
+
+  const res = await fetch(new URL("/api/clean-log", server), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "application/json" },
+    body: JSON.stringify({
+      log: redaction.text,
+      mode: options.mode,
+      format: options.format,
+      minLevel: options.minLevel,
+      similarityThreshold: options.similarityThreshold,
+      redact: options.redact,
+    }),
+  });
+  if (!res.ok) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const result = cleanLogResultSchema.parse(await res.json());
+  if (result.meta.fallbackReason) {
+    process.stderr.write(`errorlogcleaner: ${result.meta.fallbackReason}\n`);
+  }
+  return {
+    cleaned: restore(result.cleaned),
+    format: result.meta.format,
+    removed: result.removed,
+    groups: result.groups.map((group) => ({ ...group, example: restore(group.example) })),
+    provider: result.meta.provider,
+  };
+}
+
+function countLines(text: string): number {
+  const trimmed = text.replace(/\n$/, "");
+  return trimmed === "" ? 0 : trimmed.split("\n").length;
+}
+
+function formatStats(log: string, outcome: CleanOutcome): string {
+  const removedLines: Record<string, number> = {};
+  for (const range of outcome.removed) {
+    removedLines[range.reason] = (removedLines[range.reason] ?? 0) + range.endLine - range.startLine + 1;
+  }
+
+  return JSON.stringify(
+    {
+      format: outcome.format,
+      provider: outcome.provider,
+      lines: { original: countLines(log), cleaned: countLines(outcome.cleaned) },
+      removedLines,
+      groups: [...outcome.groups]
+        .sort((a, b) => b.count - a.count)
+        .map(({ fingerprint, template, count, level, firstSeen, lastSeen }) => ({
+          template: template ?? fingerprint,
+          count,
+          level,
+          firstSeen,
+          lastSeen,
+        })),
+    },
+    null,
+    2,
+  );
+}
+
+function hasLevelAtLeast(log: string, format: LogFormatName, level: SeverityLevel): boolean {
+  return lineSeverities(log, format).some(
+    (severity) => severity !== undefined && severityRank(severity) >= severityRank(level),
+  );
+}
+
+async function runStream(options: CliOptions): Promise<number> {
+  const input = options.file !== undefined ? createReadStream(options.file) : process.stdin;
+  const stats = await streamDedup(input, { ...options, windowMs: options.windowSeconds * 1000 }, (text) => {
+    if (options.output === "text") process.stdout.write(`${text}\n`);
+  });
+
+  if (options.output === "json") {
+    process.stdout.write(`${JSON.stringify(stats, null, 2)}\n`);
+  }
+  const failed =
+    options.failOn && stats.highestLevel && severityRank(stats.highestLevel) >= severityRank(options.failOn);
+  return failed ? EXIT_FAIL_ON : EXIT_OK;
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options: CliOptions | undefined;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    process.stderr.write(`errorlogcleaner: ${error.message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+  if (!options) {
+    process.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+
+  if (options.stream) {
+    try {
+      return await runStream(options);
+    } catch (error) {
+      process.stderr.write(`errorlogcleaner: ${error instanceof Error ? error.message : String(error)}\n`);
+      return EXIT_ERROR;
+    }
+  }
+
+  let log: string;
+  let outcome: CleanOutcome;
+  try {
+    log = await readInput(options.file);
+    outcome = options.server ? await cleanOnServer(options.server, log, options) : cleanLocally(log, options);
+  } catch (error) {
+    process.stderr.write(`errorlogcleaner: ${error instanceof Error ? error.message : String(error)}\n`);
+    return EXIT_ERROR;
+  }
+
+  switch (options.output) {
+    case "text":
+      process.stdout.write(outcome.cleaned.endsWith("\n") ? outcome.cleaned : `${outcome.cleaned}\n`);
+      break;
+    case "diff":
+      process.stdout.write(createTwoFilesPatch(options.file ?? "stdin", "cleaned", log, outcome.cleaned));
+      break;
+    case "json":
+      process.stdout.write(`${formatStats(log, outcome)}\n`);
+      break;
+  }
+
+  return options.failOn && hasLevelAtLeast(log, outcome.format, options.failOn) ? EXIT_FAIL_ON : EXIT_OK;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    process.stderr.write(`errorlogcleaner: ${error instanceof Error ? error.stack : String(error)}\n`);
+    process.exitCode = EXIT_ERROR;
+  },
+);
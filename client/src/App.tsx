@@ -6,6 +6,8 @@ import { Footer } from "@/components/footer";
 import Home from "@/pages/home";
 import About from "@/pages/about";
 import Privacy from "@/pages/privacy";
+import LogView from "@/pages/log-view";
+import Live from "@/pages/live";
 import NotFound from "@/pages/not-found";
 
 function App() {
@@ -17,6 +19,8 @@ function App() {
             <Route path="/" component={Home} />
             <Route path="/about" component={About} />
             <Route path="/privacy" component={Privacy} />
+            <Route path="/logs/:id" component={LogView} />
+            <Route path="/live" component={Live} />
             <Route component={NotFound} />
           </Switch>
         </main>
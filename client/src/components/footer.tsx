@@ -8,6 +8,7 @@ export function Footer() {
           © 2025 LaveryTechSolutions.com
         </div>
         <nav className="flex gap-6 text-sm text-muted-foreground">
+          <Link href="/live">Live Tail</Link>
           <Link href="/about">About</Link>
           <Link href="/privacy">Privacy Policy</Link>
           <a 
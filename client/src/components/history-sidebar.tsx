@@ -0,0 +1,142 @@
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { History, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from "@/components/ui/sidebar";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { LogPage } from "@shared/schema";
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const PAGE_SIZE = 20;
+
+interface HistorySidebarProps {
+  activeId?: number;
+  onSelect: (id: number) => void;
+  onDeleted?: (id: number) => void;
+}
+
+export function HistorySidebar({ activeId, onSelect, onDeleted }: HistorySidebarProps) {
+  const { toast } = useToast();
+  // Pages are fetched by offset; after a deletion every loaded page is refetched.
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/logs"],
+    queryFn: async ({ pageParam }): Promise<LogPage> => {
+      const res = await apiRequest("GET", `/api/logs?limit=${PAGE_SIZE}&offset=${pageParam}`);
+      return res.json();
+    },
+    initialPageParam: 0,
+    getNextPageParam: (last) => {
+      const next = last.offset + last.logs.length;
+      return next < last.total ? next : undefined;
+    },
+  });
+  const runs = data?.pages.flatMap((page) => page.logs);
+
+  const deleteLog = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/logs/${id}`);
+      return id;
+    },
+    onSuccess: (id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
+      onDeleted?.(id);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete log",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <h2 className="flex items-center gap-2 px-2 font-semibold">
+          <History className="h-4 w-4" />
+          History
+        </h2>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Previous runs</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {isLoading &&
+                Array.from({ length: 5 }).map((_, i) => (
+                  <SidebarMenuItem key={i}>
+                    <SidebarMenuSkeleton />
+                  </SidebarMenuItem>
+                ))}
+
+              {runs?.length === 0 && (
+                <p className="px-2 text-sm text-muted-foreground">
+                  Cleaned logs will show up here
+                </p>
+              )}
+
+              {runs?.map((log) => (
+                <SidebarMenuItem key={log.id}>
+                  <SidebarMenuButton
+                    isActive={log.id === activeId}
+                    onClick={() => onSelect(log.id)}
+                    className="h-auto flex-col items-start gap-0.5"
+                  >
+                    <span className="w-full truncate font-mono text-xs">
+                      {log.preview || `Log #${log.id}`}
+                    </span>
+                    <span className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(log.createdAt), { addSuffix: true })}
+                      {" · "}
+                      {formatBytes(log.originalSize)} → {formatBytes(log.cleanedSize)}
+                    </span>
+                  </SidebarMenuButton>
+                  <SidebarMenuAction
+                    showOnHover
+                    disabled={deleteLog.isPending}
+                    onClick={() => deleteLog.mutate(log.id)}
+                  >
+                    <Trash2 />
+                    <span className="sr-only">Delete</span>
+                  </SidebarMenuAction>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+
+            {hasNextPage && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mt-2 w-full"
+                disabled={isFetchingNextPage}
+                onClick={() => fetchNextPage()}
+              >
+                {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Load older runs
+              </Button>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+}
@@ -0,0 +1,60 @@
+import { useMemo } from "react";
+import { Filter } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { SEVERITY_STYLES } from "@/components/severity-badge";
+import { detectFormat } from "@shared/formats";
+import { lineSeverities, SEVERITY_LEVELS, severityRank } from "@shared/severity";
+import type { SeverityLevel } from "@shared/schema";
+
+interface LevelFilterProps {
+  log: string;
+  // Levels below this one are dropped before cleaning; everything is kept when undefined.
+  minLevel?: SeverityLevel;
+  onMinLevelChange: (level: SeverityLevel | undefined) => void;
+}
+
+export function LevelFilter({ log, minLevel, onMinLevelChange }: LevelFilterProps) {
+  const counts = useMemo(() => {
+    const counts: Partial<Record<SeverityLevel, number>> = {};
+    for (const level of lineSeverities(log, detectFormat(log))) {
+      if (level) counts[level] = (counts[level] ?? 0) + 1;
+    }
+    return counts;
+  }, [log]);
+
+  const isKept = (level: SeverityLevel) => !minLevel || severityRank(level) >= severityRank(minLevel);
+
+  // Clicking the lowest kept level drops it too; clicking any other level
+  // makes it the lowest kept one. The most severe level is always kept.
+  const handleClick = (level: SeverityLevel) => {
+    const next = level === (minLevel ?? SEVERITY_LEVELS[0]) ? SEVERITY_LEVELS[severityRank(level) + 1] : level;
+    if (!next) return;
+    onMinLevelChange(next === SEVERITY_LEVELS[0] ? undefined : next);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="flex items-center gap-1 text-sm text-muted-foreground">
+        <Filter className="h-4 w-4" />
+        Levels to clean
+      </span>
+      {SEVERITY_LEVELS.map((level) => (
+        <button
+          key={level}
+          type="button"
+          aria-pressed={isKept(level)}
+          onClick={() => handleClick(level)}
+          className={cn(
+            "inline-flex items-center gap-1 rounded-full border px-2.5 py-0.5 text-xs font-semibold uppercase transition-colors",
+            isKept(level)
+              ? cn("border-transparent", SEVERITY_STYLES[level])
+              : "text-muted-foreground line-through opacity-60",
+          )}
+        >
+          {level}
+          <span className="tabular-nums font-normal">{counts[level] ?? 0}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+import { useEffect, useMemo, useRef } from "react";
+import type { Change } from "diff";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { HoverCard, HoverCardContent, HoverCardTrigger } from "@/components/ui/hover-card";
+import { useToast } from "@/hooks/use-toast";
+import { AlertCircle, CheckCircle, Copy, Download, Link2, Undo2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { isInWindow, lineTimes, type TimeWindow } from "@shared/timeline";
+import type { LineRange, LogFormatName, RemovalReason, RemovedRange } from "@shared/schema";
+
+const REMOVAL_STYLES: Record<RemovalReason, string> = {
+  "non-critical": "bg-red-100 dark:bg-red-900/30",
+  duplicate: "bg-amber-100 dark:bg-amber-900/30",
+  noise: "bg-slate-200 dark:bg-slate-800",
+  level: "bg-violet-100 dark:bg-violet-900/30",
+};
+
+const HIGHLIGHT_STYLE = "bg-sky-200 dark:bg-sky-800/60 outline outline-1 outline-sky-500";
+
+const REMOVAL_LABELS: Record<RemovalReason, string> = {
+  "non-critical": "Non-critical",
+  duplicate: "Duplicate",
+  noise: "Noise",
+  level: "Below level",
+};
+
+interface RemovedSpanProps {
+  value: string;
+  range: RemovedRange;
+  highlighted?: boolean;
+  onRestore?: (range: RemovedRange) => void;
+}
+
+function RemovedSpan({ value, range, highlighted, onRestore }: RemovedSpanProps) {
+  return (
+    <HoverCard openDelay={200}>
+      <HoverCardTrigger asChild>
+        <span
+          data-highlighted={highlighted || undefined}
+          className={cn("line-through cursor-help", highlighted ? HIGHLIGHT_STYLE : REMOVAL_STYLES[range.reason])}
+        >
+          {value}
+        </span>
+      </HoverCardTrigger>
+      <HoverCardContent className="w-72 space-y-2 font-sans" align="start">
+        <div className="flex items-center gap-2 text-sm font-semibold">
+          <span className={cn("h-3 w-3 rounded-sm", REMOVAL_STYLES[range.reason])} />
+          {REMOVAL_LABELS[range.reason]}
+        </div>
+        <p className="text-sm text-muted-foreground">{range.detail}</p>
+        {onRestore && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            onClick={() => onRestore(range)}
+          >
+            <Undo2 className="mr-2 h-4 w-4" />
+            Restore this block
+          </Button>
+        )}
+      </HoverCardContent>
+    </HoverCard>
+  );
+}
+
+// Splits the original log into spans of consecutive lines that share the
+// same removal range and highlight state, leaving out lines that are not
+// `visible`. Removal ranges never overlap, since each line is dropped by one
+// stage only.
+function annotateRemovals(
+  originalLog: string,
+  removed: RemovedRange[],
+  highlighted: LineRange[] = [],
+  visible?: boolean[],
+) {
+  const lines = originalLog.split("\n");
+  const rangeOf: (RemovedRange | undefined)[] = [];
+  const isHighlighted: boolean[] = [];
+  for (const range of removed) {
+    for (let i = range.startLine; i <= range.endLine; i++) rangeOf[i] = range;
+  }
+  for (const range of highlighted) {
+    for (let i = range.startLine; i <= range.endLine; i++) isHighlighted[i] = true;
+  }
+
+  const parts: { value: string; range?: RemovedRange; highlighted: boolean }[] = [];
+  lines.forEach((line, i) => {
+    if (visible && !visible[i]) return;
+    const value = line + (i < lines.length - 1 ? "\n" : "");
+    const last = parts[parts.length - 1];
+    if (last && last.range === rangeOf[i] && last.highlighted === !!isHighlighted[i]) {
+      last.value += value;
+    } else {
+      parts.push({ value, range: rangeOf[i], highlighted: !!isHighlighted[i] });
+    }
+  });
+
+  return parts;
+}
+
+function visibleLines(text: string, format: LogFormatName, window: TimeWindow): boolean[] {
+  return lineTimes(text, format).map((time) => isInWindow(time, window));
+}
+
+function filterLines(text: string, visible: boolean[]): string {
+  return text
+    .split("\n")
+    .filter((_, i) => visible[i])
+    .join("\n");
+}
+
+// Keeps the lines of each diff part that fall in the window. Times are read
+// from the whole left-hand text so that stack frames follow their header.
+function filterDiffParts(parts: Change[], format: LogFormatName, window: TimeWindow): Change[] {
+  const visible = visibleLines(parts.map((part) => part.value).join(""), format, window);
+  let line = 0;
+
+  return parts
+    .map((part) => {
+      const lines = part.value.split("\n");
+      if (part.value.endsWith("\n")) lines.pop();
+      const kept = lines.filter((_, k) => visible[line + k]);
+      line += lines.length;
+      return { ...part, value: kept.map((text) => text + "\n").join("") };
+    })
+    .filter((part) => part.value !== "");
+}
+
+function downloadTextFile(content: string, filename: string) {
+  const blob = new Blob([content], { type: 'text/plain' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+}
+
+export function logPermalink(id: number): string {
+  return `${window.location.origin}/logs/${id}`;
+}
+
+interface LogResultPanesProps {
+  diffParts: Change[];
+  cleanedLog: string;
+  logId?: number;
+  // When the removals are known, they replace the plain diff in the left pane.
+  originalLog?: string;
+  removed?: RemovedRange[];
+  // Lines of the original log to highlight and scroll to.
+  highlighted?: LineRange[];
+  // When set, both panes only show lines whose timestamp falls in the window.
+  timeWindow?: TimeWindow;
+  format?: LogFormatName;
+  onRestore?: (range: RemovedRange) => void;
+}
+
+export function LogResultPanes({
+  diffParts,
+  cleanedLog,
+  logId,
+  originalLog,
+  removed,
+  highlighted,
+  timeWindow,
+  format = "text",
+  onRestore,
+}: LogResultPanesProps) {
+  const { toast } = useToast();
+
+  const leftPanelRef = useRef<HTMLDivElement>(null);
+  const rightPanelRef = useRef<HTMLDivElement>(null);
+
+  const windowed = useMemo(() => {
+    if (!timeWindow) return { diffParts, cleanedLog, originalVisible: undefined };
+    return {
+      diffParts: filterDiffParts(diffParts, format, timeWindow),
+      cleanedLog: filterLines(cleanedLog, visibleLines(cleanedLog, format, timeWindow)),
+      originalVisible: originalLog === undefined ? undefined : visibleLines(originalLog, format, timeWindow),
+    };
+  }, [timeWindow, format, diffParts, cleanedLog, originalLog]);
+
+  useEffect(() => {
+    leftPanelRef.current?.querySelector("[data-highlighted]")?.scrollIntoView({ block: "center" });
+  }, [highlighted]);
+
+  const handleExport = () => {
+    if (!cleanedLog) {
+      toast({
+        title: "Error",
+        description: "No cleaned log to export",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadTextFile(cleanedLog, `cleaned-log-${timestamp}.txt`);
+
+    toast({
+      title: "Success",
+      description: "Log exported successfully",
+    });
+  };
+
+  const copyToClipboard = async (text: string, description: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title: "Success",
+        description,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to copy to clipboard",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!cleanedLog) {
+      toast({
+        title: "Error",
+        description: "No cleaned log to copy",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await copyToClipboard(cleanedLog, "Log copied to clipboard");
+  };
+
+  const handleCopyLink = async () => {
+    if (logId === undefined) return;
+    await copyToClipboard(logPermalink(logId), "Link copied to clipboard");
+  };
+
+  const syncScroll = (source: HTMLDivElement, target: HTMLDivElement) => {
+    target.scrollTop = source.scrollTop;
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <Card className="p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <AlertCircle className="h-5 w-5 text-red-500" />
+            Removed Lines
+          </h2>
+          {removed && (
+            <div className="flex gap-3 text-xs text-muted-foreground">
+              {(Object.keys(REMOVAL_LABELS) as RemovalReason[]).map((reason) => (
+                <span key={reason} className="flex items-center gap-1">
+                  <span className={cn("h-3 w-3 rounded-sm", REMOVAL_STYLES[reason])} />
+                  {REMOVAL_LABELS[reason]}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+        <ScrollArea
+          ref={leftPanelRef}
+          className="h-[400px] rounded-md border"
+          onScroll={(e) => rightPanelRef.current && syncScroll(e.currentTarget, rightPanelRef.current)}
+        >
+          <pre className="p-4 font-mono text-sm">
+            {removed && originalLog !== undefined
+              ? annotateRemovals(originalLog, removed, highlighted, windowed.originalVisible).map((part, i) =>
+                  part.range ? (
+                    <RemovedSpan
+                      key={i}
+                      value={part.value}
+                      range={part.range}
+                      highlighted={part.highlighted}
+                      onRestore={onRestore}
+                    />
+                  ) : (
+                    <span
+                      key={i}
+                      data-highlighted={part.highlighted || undefined}
+                      className={cn(part.highlighted && HIGHLIGHT_STYLE)}
+                    >
+                      {part.value}
+                    </span>
+                  )
+                )
+              : windowed.diffParts.map((part, i) => (
+                  <span
+                    key={i}
+                    className={cn(
+                      part.removed && "bg-red-100 dark:bg-red-900/30 line-through"
+                    )}
+                  >
+                    {part.value}
+                  </span>
+                ))}
+          </pre>
+        </ScrollArea>
+      </Card>
+
+      <Card className="p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <CheckCircle className="h-5 w-5 text-green-500" />
+            Cleaned Log
+          </h2>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleCopy}
+            >
+              <Copy className="mr-2 h-4 w-4" />
+              Copy
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Export
+            </Button>
+            {logId !== undefined && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleCopyLink}
+              >
+                <Link2 className="mr-2 h-4 w-4" />
+                Copy link
+              </Button>
+            )}
+          </div>
+        </div>
+        <ScrollArea
+          ref={rightPanelRef}
+          className="h-[400px] rounded-md border"
+          onScroll={(e) => leftPanelRef.current && syncScroll(e.currentTarget, leftPanelRef.current)}
+        >
+          <pre className="p-4 font-mono text-sm">{windowed.cleanedLog}</pre>
+        </ScrollArea>
+      </Card>
+    </div>
+  );
+}
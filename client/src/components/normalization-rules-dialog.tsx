@@ -0,0 +1,182 @@
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, Plus, RotateCcw, SlidersHorizontal, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { createNormalizer, defaultNormalizationRules } from "@shared/dedup";
+import { normalizationRuleSchema, type NormalizationRule } from "@shared/schema";
+
+const BUILT_IN_RULES = new Set(defaultNormalizationRules.map((rule) => rule.name));
+
+interface NormalizationRulesDialogProps {
+  rules: NormalizationRule[];
+  onRulesChange: (rules: NormalizationRule[]) => void;
+  onReset: () => void;
+  // The line the fingerprint preview is shown for.
+  sampleLine: string;
+}
+
+export function NormalizationRulesDialog({ rules, onRulesChange, onReset, sampleLine }: NormalizationRulesDialogProps) {
+  const [draft, setDraft] = useState({ name: "", pattern: "", replacement: "" });
+  const [draftError, setDraftError] = useState<string>();
+
+  const fingerprint = useMemo(() => createNormalizer(rules)(sampleLine), [rules, sampleLine]);
+
+  const updateRule = (index: number, changes: Partial<NormalizationRule>) => {
+    onRulesChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const next = [...rules];
+    const [rule] = next.splice(index, 1);
+    next.splice(index + offset, 0, rule);
+    onRulesChange(next);
+  };
+
+  const removeRule = (index: number) => {
+    onRulesChange(rules.filter((_, i) => i !== index));
+  };
+
+  const addRule = () => {
+    if (rules.some((rule) => rule.name === draft.name.trim())) {
+      setDraftError(`A rule named "${draft.name.trim()}" already exists`);
+      return;
+    }
+
+    const parsed = normalizationRuleSchema.safeParse(draft);
+    if (!parsed.success) {
+      setDraftError(parsed.error.issues[0].message);
+      return;
+    }
+
+    // Custom rules go in front of the catch-all digit rule so they see the raw numbers.
+    const numberIndex = rules.findIndex((rule) => rule.name === "number");
+    const next = [...rules];
+    next.splice(numberIndex === -1 ? next.length : numberIndex, 0, parsed.data);
+    onRulesChange(next);
+    setDraft({ name: "", pattern: "", replacement: "" });
+    setDraftError(undefined);
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          Fingerprint rules
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Fingerprint rules</DialogTitle>
+          <DialogDescription>
+            Messages are masked by these rules, top to bottom, before they are compared. Lines with the same
+            fingerprint are treated as duplicates.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 rounded-md border bg-muted/50 p-3 font-mono text-xs">
+          <div className="break-all">
+            <span className="text-muted-foreground">Line: </span>
+            {sampleLine || <span className="text-muted-foreground">Select a line in your log to preview it</span>}
+          </div>
+          <div className="break-all">
+            <span className="text-muted-foreground">Fingerprint: </span>
+            {fingerprint}
+          </div>
+        </div>
+
+        <ul className="divide-y rounded-md border">
+          {rules.map((rule, i) => (
+            <li key={rule.name} className="flex items-center gap-3 p-2">
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => updateRule(i, { enabled })}
+                aria-label={`Enable ${rule.name}`}
+              />
+              <div className="min-w-0 flex-1">
+                <div className="text-sm font-medium">{rule.name}</div>
+                <div className="truncate font-mono text-xs text-muted-foreground" title={rule.pattern}>
+                  /{rule.pattern}/{rule.flags} → {rule.replacement}
+                </div>
+              </div>
+              <Button variant="ghost" size="icon" disabled={i === 0} onClick={() => moveRule(i, -1)}>
+                <ArrowUp className="h-4 w-4" />
+                <span className="sr-only">Move up</span>
+              </Button>
+              <Button variant="ghost" size="icon" disabled={i === rules.length - 1} onClick={() => moveRule(i, 1)}>
+                <ArrowDown className="h-4 w-4" />
+                <span className="sr-only">Move down</span>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                disabled={BUILT_IN_RULES.has(rule.name)}
+                onClick={() => removeRule(i)}
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Delete</span>
+              </Button>
+            </li>
+          ))}
+        </ul>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold">Add a custom rule</h3>
+          <div className="grid gap-2 sm:grid-cols-[1fr_2fr_1fr_auto] sm:items-end">
+            <div className="space-y-1">
+              <Label htmlFor="rule-name">Name</Label>
+              <Input
+                id="rule-name"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="order-id"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rule-pattern">Regular expression</Label>
+              <Input
+                id="rule-pattern"
+                value={draft.pattern}
+                onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+                placeholder="ORD-[A-Z0-9]+"
+                className="font-mono"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="rule-replacement">Replace with</Label>
+              <Input
+                id="rule-replacement"
+                value={draft.replacement}
+                onChange={(e) => setDraft({ ...draft, replacement: e.target.value })}
+                placeholder="<order>"
+                className="font-mono"
+              />
+            </div>
+            <Button onClick={addRule} disabled={!draft.name || !draft.pattern}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add
+            </Button>
+          </div>
+          {draftError && <p className="text-sm text-destructive">{draftError}</p>}
+        </div>
+
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={onReset}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Reset to defaults
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,101 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { FileKey, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ProguardMappingInfo } from "@shared/schema";
+
+function mappingUrl(project: string): string {
+  return `/api/projects/${encodeURIComponent(project)}/proguard-mapping`;
+}
+
+interface ProguardMappingUploadProps {
+  project: string;
+  onProjectChange: (project: string) => void;
+}
+
+// Mappings are stored per project on the server, so a project only needs
+// its mapping.txt uploaded once per release.
+export function ProguardMappingUpload({ project, onProjectChange }: ProguardMappingUploadProps) {
+  const { toast } = useToast();
+  const trimmed = project.trim();
+
+  const { data: stored, isLoading } = useQuery<ProguardMappingInfo | null>({
+    queryKey: [mappingUrl(trimmed)],
+    enabled: trimmed !== "",
+    queryFn: async () => {
+      const res = await fetch(mappingUrl(trimmed), { credentials: "include" });
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      return res.json();
+    },
+  });
+
+  const upload = useMutation({
+    mutationFn: async (mapping: string) => {
+      const res = await apiRequest("PUT", mappingUrl(trimmed), { mapping });
+      return res.json() as Promise<ProguardMappingInfo>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [mappingUrl(trimmed)] });
+      toast({
+        title: "Success",
+        description: `Mapping stored for ${trimmed}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to upload mapping",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) upload.mutate(await file.text());
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Input
+        value={project}
+        onChange={(e) => onProjectChange(e.target.value)}
+        placeholder="Project (for ProGuard/R8 retrace)"
+        className="w-64"
+        aria-label="Project"
+      />
+      <input
+        type="file"
+        accept=".txt,.map"
+        onChange={handleUpload}
+        className="hidden"
+        id="proguard-mapping-upload"
+        disabled={trimmed === ""}
+      />
+      <label htmlFor="proguard-mapping-upload">
+        <Button variant="outline" disabled={trimmed === "" || upload.isPending} asChild>
+          <span>
+            {upload.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <FileKey className="mr-2 h-4 w-4" />
+            )}
+            Upload mapping.txt
+          </span>
+        </Button>
+      </label>
+      {trimmed !== "" && !isLoading && (
+        <span className="text-sm text-muted-foreground">
+          {stored
+            ? `Mapping stored, updated ${formatDistanceToNow(new Date(stored.updatedAt), { addSuffix: true })}`
+            : "No mapping stored"}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useMemo, useState } from "react";
+import { Eye, EyeOff, ShieldCheck } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import type { Redaction } from "@shared/redaction";
+
+interface RedactionReportProps {
+  // Only ever held in the browser; the server never sees the values.
+  redactions: Redaction[];
+}
+
+export function RedactionReport({ redactions }: RedactionReportProps) {
+  const [showValues, setShowValues] = useState(false);
+
+  const counts = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const { rule } of redactions) counts.set(rule, (counts.get(rule) ?? 0) + 1);
+    return Array.from(counts);
+  }, [redactions]);
+
+  return (
+    <Card className="p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5 text-green-500" />
+          Redacted before sending
+        </h2>
+        <Button variant="outline" size="sm" onClick={() => setShowValues(!showValues)}>
+          {showValues ? <EyeOff className="mr-2 h-4 w-4" /> : <Eye className="mr-2 h-4 w-4" />}
+          {showValues ? "Hide values" : "Show values"}
+        </Button>
+      </div>
+      <p className="text-sm text-muted-foreground mb-3">
+        These values were replaced by placeholders before the log left your browser. The results below have them
+        restored locally.
+      </p>
+      <div className="flex flex-wrap gap-2 mb-3">
+        {counts.map(([rule, count]) => (
+          <Badge key={rule} variant="secondary">
+            {rule} × {count}
+          </Badge>
+        ))}
+      </div>
+      <ScrollArea className="max-h-48 rounded-md border">
+        <ul className="divide-y font-mono text-xs">
+          {redactions.map((redaction) => (
+            <li key={redaction.placeholder} className="flex gap-4 px-3 py-1.5">
+              <span className="shrink-0">{redaction.placeholder}</span>
+              <span className="truncate text-muted-foreground">
+                {showValues ? redaction.value : "•".repeat(Math.min(redaction.value.length, 24))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </ScrollArea>
+    </Card>
+  );
+}
@@ -0,0 +1,20 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { SeverityLevel } from "@shared/schema";
+
+export const SEVERITY_STYLES: Record<SeverityLevel, string> = {
+  trace: "bg-slate-100 text-slate-600 dark:bg-slate-800 dark:text-slate-300",
+  debug: "bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-200",
+  info: "bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-200",
+  warn: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200",
+  error: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200",
+  fatal: "bg-red-600 text-white dark:bg-red-700",
+};
+
+export function SeverityBadge({ level, className }: { level: SeverityLevel; className?: string }) {
+  return (
+    <Badge variant="outline" className={cn("border-transparent uppercase", SEVERITY_STYLES[level], className)}>
+      {level}
+    </Badge>
+  );
+}
@@ -0,0 +1,72 @@
+import { FileCode, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import type { SourceMapFile } from "@shared/schema";
+
+// A ".json" bundle maps bundle file names to their source maps, e.g.
+// { "main.3f9a.js": { "version": 3, ... } }; anything else is one map.
+function expandBundle(name: string, content: string): SourceMapFile[] {
+  if (name.endsWith(".map")) return [{ name, content }];
+
+  const parsed = JSON.parse(content);
+  if ("mappings" in parsed || "sections" in parsed) return [{ name, content }];
+  return Object.entries(parsed).map(([file, map]) => ({
+    name: `${file}.map`,
+    content: JSON.stringify(map),
+  }));
+}
+
+interface SourceMapUploadProps {
+  files: SourceMapFile[];
+  onFilesChange: (files: SourceMapFile[]) => void;
+}
+
+export function SourceMapUpload({ files, onFilesChange }: SourceMapUploadProps) {
+  const { toast } = useToast();
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = "";
+
+    try {
+      const added = await Promise.all(
+        selected.map(async (file) => expandBundle(file.name, await file.text())),
+      );
+      const names = new Set(added.flat().map((file) => file.name));
+      onFilesChange([...files.filter((file) => !names.has(file.name)), ...added.flat()]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? `Could not read source maps: ${error.message}` : "Could not read source maps",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <input
+        type="file"
+        accept=".map,.json"
+        multiple
+        onChange={handleUpload}
+        className="hidden"
+        id="source-map-upload"
+      />
+      <label htmlFor="source-map-upload">
+        <Button variant="outline" asChild>
+          <span>
+            <FileCode className="mr-2 h-4 w-4" />
+            {files.length > 0 ? `${files.length} source maps` : "Source maps"}
+          </span>
+        </Button>
+      </label>
+      {files.length > 0 && (
+        <Button variant="ghost" size="icon" onClick={() => onFilesChange([])}>
+          <X className="h-4 w-4" />
+          <span className="sr-only">Remove source maps</span>
+        </Button>
+      )}
+    </div>
+  );
+}
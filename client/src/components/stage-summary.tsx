@@ -0,0 +1,78 @@
+import { ArrowRight } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { ProviderName } from "@shared/schema";
+
+export type StagePair = "original-deduplicated" | "deduplicated-cleaned" | "original-cleaned";
+
+// The rules provider cleans without a model, so its output is not "AI-cleaned".
+function cleanedLabel(cleanedBy?: ProviderName): string {
+  return cleanedBy === "rules" ? "Rules-cleaned" : "AI-cleaned";
+}
+
+function stagePairs(cleaned: string): { value: StagePair; label: string }[] {
+  return [
+    { value: "original-deduplicated", label: "Original → Deduplicated" },
+    { value: "deduplicated-cleaned", label: `Deduplicated → ${cleaned}` },
+    { value: "original-cleaned", label: `Original → ${cleaned}` },
+  ];
+}
+
+function countLines(text: string): number {
+  return text === "" ? 0 : text.split("\n").length;
+}
+
+interface StageSummaryProps {
+  original: string;
+  deduplicated: string;
+  cleaned: string;
+  cleanedBy?: ProviderName;
+  value: StagePair;
+  onValueChange: (value: StagePair) => void;
+}
+
+export function StageSummary({ original, deduplicated, cleaned, cleanedBy, value, onValueChange }: StageSummaryProps) {
+  const label = cleanedLabel(cleanedBy);
+  const stages = [
+    { label: "Original", lines: countLines(original) },
+    { label: "Deduplicated", lines: countLines(deduplicated) },
+    { label, lines: countLines(cleaned) },
+  ];
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-col lg:flex-row gap-4 lg:items-center lg:justify-between">
+        <div className="flex items-center gap-3">
+          {stages.map((stage, i) => (
+            <div key={stage.label} className="flex items-center gap-3">
+              {i > 0 && (
+                <div className="flex flex-col items-center text-xs text-muted-foreground">
+                  <ArrowRight className="h-4 w-4" />
+                  <span>−{Math.max(0, stages[i - 1].lines - stage.lines)}</span>
+                </div>
+              )}
+              <div>
+                <div className="text-sm text-muted-foreground">{stage.label}</div>
+                <div className="text-lg font-semibold">{stage.lines} lines</div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <ToggleGroup
+          type="single"
+          variant="outline"
+          size="sm"
+          value={value}
+          onValueChange={(next) => next && onValueChange(next as StagePair)}
+        >
+          {stagePairs(label).map((pair) => (
+            <ToggleGroupItem key={pair.value} value={pair.value}>
+              {pair.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown, ListTree } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { SeverityBadge } from "@/components/severity-badge";
+import { severityLevelSchema, type ErrorGroup } from "@shared/schema";
+
+type SortKey = "template" | "count" | "firstSeen" | "lastSeen" | "level";
+
+// Columns without a sort key are not sortable.
+const COLUMNS: { key?: SortKey; label: string; className?: string }[] = [
+  { key: "template", label: "Template" },
+  { key: "count", label: "Count", className: "w-20" },
+  { key: "firstSeen", label: "First seen", className: "w-44" },
+  { key: "lastSeen", label: "Last seen", className: "w-44" },
+  { label: "Example" },
+  { key: "level", label: "Severity", className: "w-24" },
+];
+
+const SEVERITY_ORDER = severityLevelSchema.options;
+
+export function templateOf(group: ErrorGroup): string {
+  return group.template ?? group.fingerprint;
+}
+
+// Occurrences are in log order, so positions stand in for missing timestamps.
+function compareGroups(a: ErrorGroup, b: ErrorGroup, key: SortKey): number {
+  switch (key) {
+    case "template":
+      return templateOf(a).localeCompare(templateOf(b));
+    case "count":
+      return a.count - b.count;
+    case "firstSeen":
+      return a.occurrences[0].startLine - b.occurrences[0].startLine;
+    case "lastSeen":
+      return a.occurrences[a.occurrences.length - 1].startLine - b.occurrences[b.occurrences.length - 1].startLine;
+    case "level":
+      return (a.level ? SEVERITY_ORDER.indexOf(a.level) : -1) - (b.level ? SEVERITY_ORDER.indexOf(b.level) : -1);
+  }
+}
+
+function SeenCell({ timestamp, line }: { timestamp?: string; line: number }) {
+  return (
+    <TableCell className="whitespace-nowrap font-mono text-xs">
+      {timestamp ?? <span className="text-muted-foreground">line {line + 1}</span>}
+    </TableCell>
+  );
+}
+
+interface TemplateTableProps {
+  groups: ErrorGroup[];
+  selected?: ErrorGroup;
+  onSelect: (group: ErrorGroup | undefined) => void;
+}
+
+export function TemplateTable({ groups, selected, onSelect }: TemplateTableProps) {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: "count", descending: true });
+
+  const sorted = useMemo(() => {
+    const direction = sort.descending ? -1 : 1;
+    return [...groups].sort((a, b) => direction * compareGroups(a, b, sort.key));
+  }, [groups, sort]);
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) =>
+      current.key === key ? { key, descending: !current.descending } : { key, descending: key === "count" },
+    );
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <ListTree className="h-5 w-5 text-muted-foreground" />
+          Message Templates
+        </h2>
+        <span className="text-sm text-muted-foreground">
+          {groups.length} templates · click a row to highlight its occurrences
+        </span>
+      </div>
+      <ScrollArea className="h-[320px] rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {COLUMNS.map(({ key, label, className }) => (
+                <TableHead key={label} className={className}>
+                  {key ? (
+                    <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => toggleSort(key)}>
+                      {label}
+                      {sort.key !== key ? (
+                        <ArrowUpDown className="ml-2 h-3 w-3" />
+                      ) : sort.descending ? (
+                        <ArrowDown className="ml-2 h-3 w-3" />
+                      ) : (
+                        <ArrowUp className="ml-2 h-3 w-3" />
+                      )}
+                    </Button>
+                  ) : (
+                    label
+                  )}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {sorted.map((group) => (
+              <TableRow
+                key={group.occurrences[0].startLine}
+                data-state={group === selected ? "selected" : undefined}
+                className="cursor-pointer"
+                onClick={() => onSelect(group === selected ? undefined : group)}
+              >
+                <TableCell className="max-w-xs">
+                  <div className="truncate font-mono text-xs" title={templateOf(group)}>
+                    {templateOf(group)}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right tabular-nums">{group.count}</TableCell>
+                <SeenCell timestamp={group.firstSeen} line={group.occurrences[0].startLine} />
+                <SeenCell
+                  timestamp={group.lastSeen}
+                  line={group.occurrences[group.occurrences.length - 1].startLine}
+                />
+                <TableCell className="max-w-xs">
+                  <div className="truncate font-mono text-xs text-muted-foreground" title={group.example}>
+                    {group.example.split("\n")[0]}
+                  </div>
+                </TableCell>
+                <TableCell>{group.level && <SeverityBadge level={group.level} />}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+    </Card>
+  );
+}
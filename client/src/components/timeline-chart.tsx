@@ -0,0 +1,153 @@
+import { useEffect, useMemo, useState } from "react";
+import { format as formatDate } from "date-fns";
+import { Bar, BarChart, Brush, CartesianGrid, XAxis, YAxis } from "recharts";
+import { BarChart3, ZoomOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { buildTimeline, type TimelineSplit, type TimeWindow } from "@shared/timeline";
+import type { ErrorGroup, LogFormatName } from "@shared/schema";
+
+const SEVERITY_COLORS: Record<string, string> = {
+  fatal: "hsl(0 72% 35%)",
+  error: "hsl(0 84% 60%)",
+  warn: "hsl(38 92% 50%)",
+  info: "hsl(199 89% 48%)",
+  debug: "hsl(215 16% 57%)",
+  trace: "hsl(215 20% 75%)",
+  unknown: "hsl(215 14% 85%)",
+};
+
+const TEMPLATE_COLORS = [
+  "hsl(221 83% 53%)",
+  "hsl(262 83% 58%)",
+  "hsl(330 81% 60%)",
+  "hsl(25 95% 53%)",
+  "hsl(160 84% 39%)",
+  "hsl(215 14% 80%)",
+];
+
+// Formats bucket starts at the precision that tells buckets of this size apart.
+function bucketLabel(time: number, size: number): string {
+  if (size < 60_000) return formatDate(time, "HH:mm:ss");
+  if (size < 86_400_000) return formatDate(time, "MMM d HH:mm");
+  return formatDate(time, "MMM d");
+}
+
+interface TimelineChartProps {
+  log: string;
+  format: LogFormatName;
+  groups: ErrorGroup[];
+  // The window selected with the brush; undefined when showing everything.
+  onWindowChange: (window: TimeWindow | undefined) => void;
+}
+
+export function TimelineChart({ log, format, groups, onWindowChange }: TimelineChartProps) {
+  const [splitBy, setSplitBy] = useState<TimelineSplit>("severity");
+  const [range, setRange] = useState<{ startIndex: number; endIndex: number }>();
+
+  const timeline = useMemo(() => buildTimeline(log, format, groups, splitBy), [log, format, groups, splitBy]);
+
+  // Series names are free text, so they are keyed by position for the chart's CSS variables.
+  const { data, config } = useMemo(() => {
+    const config: ChartConfig = {};
+    timeline.series.forEach((name, i) => {
+      config[`s${i}`] = {
+        label: name,
+        color: splitBy === "severity" ? SEVERITY_COLORS[name] : TEMPLATE_COLORS[i % TEMPLATE_COLORS.length],
+      };
+    });
+
+    const size = timeline.buckets.length > 0 ? timeline.buckets[0].end - timeline.buckets[0].start : 0;
+    const data = timeline.buckets.map((bucket) => {
+      const row: Record<string, string | number> = { label: bucketLabel(bucket.start, size) };
+      timeline.series.forEach((name, i) => {
+        row[`s${i}`] = bucket.counts[name] ?? 0;
+      });
+      return row;
+    });
+
+    return { data, config };
+  }, [timeline, splitBy]);
+
+  useEffect(() => {
+    setRange(undefined);
+    onWindowChange(undefined);
+  }, [timeline.buckets.length]);
+
+  const handleBrushChange = ({ startIndex, endIndex }: { startIndex?: number; endIndex?: number }) => {
+    if (startIndex === undefined || endIndex === undefined) return;
+    setRange({ startIndex, endIndex });
+
+    const whole = startIndex === 0 && endIndex === timeline.buckets.length - 1;
+    onWindowChange(
+      whole ? undefined : { start: timeline.buckets[startIndex].start, end: timeline.buckets[endIndex].end },
+    );
+  };
+
+  const handleResetZoom = () => {
+    setRange(undefined);
+    onWindowChange(undefined);
+  };
+
+  if (timeline.buckets.length === 0) return null;
+
+  return (
+    <Card className="p-6">
+      <div className="flex flex-col gap-4 mb-4 lg:flex-row lg:items-center lg:justify-between">
+        <h2 className="text-xl font-semibold flex items-center gap-2">
+          <BarChart3 className="h-5 w-5 text-muted-foreground" />
+          Timeline
+        </h2>
+        <div className="flex items-center gap-2">
+          {range && (
+            <Button variant="outline" size="sm" onClick={handleResetZoom}>
+              <ZoomOut className="mr-2 h-4 w-4" />
+              Reset zoom
+            </Button>
+          )}
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={splitBy}
+            onValueChange={(next) => next && setSplitBy(next as TimelineSplit)}
+          >
+            <ToggleGroupItem value="severity">By severity</ToggleGroupItem>
+            <ToggleGroupItem value="template">By template</ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+      </div>
+      <p className="text-sm text-muted-foreground mb-2">
+        Drag the handles below the chart to zoom in; both log panes only show lines from the selected window.
+      </p>
+      <ChartContainer config={config} className="aspect-auto h-[260px] w-full">
+        <BarChart data={data}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={24} />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          {splitBy === "severity" && <ChartLegend content={<ChartLegendContent />} />}
+          {timeline.series.map((_, i) => (
+            <Bar key={i} dataKey={`s${i}`} stackId="events" fill={`var(--color-s${i})`} />
+          ))}
+          <Brush
+            dataKey="label"
+            height={24}
+            startIndex={range?.startIndex ?? 0}
+            endIndex={range?.endIndex ?? data.length - 1}
+            onChange={handleBrushChange}
+          />
+        </BarChart>
+      </ChartContainer>
+    </Card>
+  );
+}
@@ -0,0 +1,76 @@
+import { useEffect, useState } from "react";
+import { liveMessageSchema, type LiveEvent, type LiveSource } from "@shared/schema";
+
+export type LiveStatus = "connecting" | "open" | "closed";
+
+const RECONNECT_DELAY_MS = 2000;
+
+function liveUrl(): string {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `${protocol}//${window.location.host}/api/live`;
+}
+
+// Keeps the server's deduplicated events keyed by id, so a repeat replaces
+// its event in place, and reconnects whenever the socket drops.
+export function useLiveTail() {
+  const [events, setEvents] = useState<Map<number, LiveEvent>>(() => new Map());
+  const [sources, setSources] = useState<LiveSource[]>([]);
+  const [status, setStatus] = useState<LiveStatus>("connecting");
+  const [error, setError] = useState<string>();
+
+  useEffect(() => {
+    let socket: WebSocket | undefined;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let disposed = false;
+
+    const connect = () => {
+      setStatus("connecting");
+      socket = new WebSocket(liveUrl());
+
+      socket.onopen = () => {
+        setStatus("open");
+        setError(undefined);
+      };
+
+      socket.onmessage = ({ data }) => {
+        const parsed = liveMessageSchema.safeParse(JSON.parse(String(data)));
+        if (!parsed.success) return;
+        const message = parsed.data;
+
+        switch (message.type) {
+          case "snapshot":
+            setSources(message.sources);
+            setEvents(new Map(message.events.map((event) => [event.id, event])));
+            break;
+          case "event":
+            setEvents((current) => new Map(current).set(message.event.id, message.event));
+            break;
+          case "evict":
+            setEvents((current) => {
+              const next = new Map(current);
+              next.delete(message.id);
+              return next;
+            });
+            break;
+          case "error":
+            setError(message.message);
+            break;
+        }
+      };
+
+      socket.onclose = () => {
+        setStatus("closed");
+        if (!disposed) reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, []);
+
+  return { events: Array.from(events.values()), sources, status, error };
+}
@@ -0,0 +1,52 @@
+import { useEffect, useState } from "react";
+import { z } from "zod";
+import { normalizationRuleSchema, type NormalizationRule } from "@shared/schema";
+import { defaultNormalizationRules } from "@shared/dedup";
+
+const STORAGE_KEY = "errorlogcleaner:normalization-rules";
+
+interface StoredRules {
+  rules: NormalizationRule[];
+  // Names of stored rules that are no longer valid, e.g. because a pattern
+  // falls outside the restricted syntax introduced after it was saved.
+  dropped: string[];
+}
+
+// Each rule is checked on its own, so one invalid rule does not cost the
+// user the rest of their set.
+function loadRules(): StoredRules {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const rules: NormalizationRule[] = [];
+      const dropped: string[] = [];
+      for (const item of z.array(z.unknown()).parse(JSON.parse(stored))) {
+        const rule = normalizationRuleSchema.safeParse(item);
+        if (rule.success) {
+          rules.push(rule.data);
+        } else {
+          const named = z.object({ name: z.string() }).safeParse(item);
+          dropped.push(named.success ? named.data.name : "unnamed rule");
+        }
+      }
+      return { rules, dropped };
+    }
+  } catch {
+    // Fall back to the defaults when the stored rules are missing or corrupt.
+  }
+  return { rules: defaultNormalizationRules, dropped: [] };
+}
+
+// The fingerprint rules are kept in the browser, so every user keeps their own set.
+export function useNormalizationRules() {
+  const [initial] = useState(loadRules);
+  const [rules, setRules] = useState<NormalizationRule[]>(initial.rules);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+  }, [rules]);
+
+  const resetRules = () => setRules(defaultNormalizationRules);
+
+  return { rules, setRules, resetRules, droppedRules: initial.dropped };
+}
@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import type { z } from "zod";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -23,6 +24,61 @@ export async function apiRequest(
   return res;
 }
 
+// EventSource only supports GET, so server-sent events from POST endpoints
+// are read off the fetch body stream instead. Every event is validated
+// against `schema`, which sees it as `{ event, data }`.
+export async function streamRequest<T>(
+  method: string,
+  url: string,
+  data: unknown,
+  schema: z.ZodType<T>,
+  onEvent: (event: T) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify(data),
+    credentials: "include",
+    signal,
+  });
+
+  await throwIfResNotOk(res);
+  if (!res.body) return;
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        const message = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event = "message";
+        const dataLines: string[] = [];
+        for (const line of message.split("\n")) {
+          if (line.startsWith("event:")) event = line.slice(6).trim();
+          else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+        }
+        if (dataLines.length > 0) {
+          onEvent(schema.parse({ event, data: JSON.parse(dataLines.join("\n")) }));
+        }
+      }
+    }
+  } catch (error) {
+    // A malformed event or a handler that throws, e.g. on an "error" event,
+    // ends the request instead of leaving the response streaming.
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -1,93 +1,108 @@
-import { useState, useRef } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
-import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
 import { useToast } from "@/hooks/use-toast";
-import { diffLines } from "diff";
-import { Upload, CheckCircle, AlertCircle, Loader2, Download, Copy, Info } from "lucide-react";
-import { apiRequest } from "@/lib/queryClient";
-import { cn } from "@/lib/utils";
-
-function normalizeErrorMessage(message: string): string {
-  return message.replace(/\[[\w\s]+\]/g, '[ID]')
-                .replace(/\d+/g, '<num>')
-                .trim();
-}
-
-function deduplicateLog(log: string): string {
-  const lines = log.split('\n');
-  const errorCache = new Map<string, { count: number; originalMessage: string }>();
-  const processedLines: string[] = [];
-  let currentErrorBlock: string[] = [];
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
+import { useNormalizationRules } from "@/hooks/use-normalization-rules";
+import { diffLines, type Change } from "diff";
+import { Upload, CheckCircle, Loader2, Info, X } from "lucide-react";
+import { SidebarInset, SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { HistorySidebar } from "@/components/history-sidebar";
+import { LogResultPanes } from "@/components/log-result-panes";
+import { StageSummary, type StagePair } from "@/components/stage-summary";
+import { NormalizationRulesDialog } from "@/components/normalization-rules-dialog";
+import { TemplateTable } from "@/components/template-table";
+import { TimelineChart } from "@/components/timeline-chart";
+import { LevelFilter } from "@/components/level-filter";
+import { RedactionReport } from "@/components/redaction-report";
+import { SourceMapUpload } from "@/components/source-map-upload";
+import { ProguardMappingUpload } from "@/components/proguard-mapping-upload";
+import { apiRequest, queryClient, streamRequest } from "@/lib/queryClient";
+import {
+  cleanLogEventSchema,
+  type CleanLogResult,
+  type CleanMode,
+  type ErrorGroup,
+  type Log,
+  type LogFormatName,
+  type ProviderInfo,
+  type ProviderName,
+  type SeverityLevel,
+  type SourceMapFile,
+  type RemovedRange,
+} from "@shared/schema";
+import { restoreRange } from "@shared/pipeline";
+import type { TimeWindow } from "@shared/timeline";
+import { redactLog, rehydrate, type Redaction } from "@shared/redaction";
 
-    if (line.trim() === '' || i === lines.length - 1) {
-      if (i === lines.length - 1 && line.trim() !== '') {
-        currentErrorBlock.push(line);
-      }
-
-      if (currentErrorBlock.length > 0) {
-        const originalBlock = currentErrorBlock.join('\n');
-        const normalizedBlock = normalizeErrorMessage(originalBlock);
-
-        if (errorCache.has(normalizedBlock)) {
-          const entry = errorCache.get(normalizedBlock)!;
-          entry.count++;
-        } else {
-          errorCache.set(normalizedBlock, {
-            count: 1,
-            originalMessage: originalBlock
-          });
-          processedLines.push(originalBlock);
-        }
+const PROJECT_STORAGE_KEY = "errorlogcleaner:project";
 
-        currentErrorBlock = [];
-      }
-      if (line.trim() === '') {
-        processedLines.push('');
-      }
-    } else {
-      currentErrorBlock.push(line);
-    }
+function cleanupStep(mode: CleanMode, provider: ProviderInfo | undefined): string {
+  if (mode === "rules" || provider?.name === "rules") {
+    return "Strip noise such as ANSI codes, progress bars and DEBUG lines with deterministic rules";
   }
-
-  const result = processedLines.map(line => {
-    if (!line) return '';
-    const normalized = normalizeErrorMessage(line);
-    const entry = errorCache.get(normalized);
-    if (entry && entry.count > 1) {
-      return `${line} [x${entry.count}]`;
-    }
-    return line;
-  });
-
-  return result.join('\n');
+  if (!provider) return "Process the result with the configured AI provider for intelligent cleanup";
+  return `Process the result with ${provider.model ?? provider.name} (${provider.name}) for intelligent cleanup`;
 }
 
-function downloadTextFile(content: string, filename: string) {
-  const blob = new Blob([content], { type: 'text/plain' });
-  const url = window.URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  window.URL.revokeObjectURL(url);
+function lineAt(text: string, position: number): string {
+  const start = text.lastIndexOf("\n", position - 1) + 1;
+  const end = text.indexOf("\n", position);
+  return text.slice(start, end === -1 ? undefined : end);
 }
 
 export default function Home() {
   const [inputLog, setInputLog] = useState("");
   const [cleanedLog, setCleanedLog] = useState("");
-  const [diffParts, setDiffParts] = useState<any[]>([]);
+  const [diffParts, setDiffParts] = useState<Change[]>([]);
+  const [removed, setRemoved] = useState<RemovedRange[]>();
+  const [deduplicatedLog, setDeduplicatedLog] = useState<string>();
+  const [groups, setGroups] = useState<ErrorGroup[]>();
+  const [selectedGroup, setSelectedGroup] = useState<ErrorGroup>();
+  const [logFormat, setLogFormat] = useState<LogFormatName>();
+  const [cleanedBy, setCleanedBy] = useState<ProviderName>();
+  const [timeWindow, setTimeWindow] = useState<TimeWindow>();
+  const [stagePair, setStagePair] = useState<StagePair>("original-cleaned");
   const [isLoading, setIsLoading] = useState(false);
+  const [activeLogId, setActiveLogId] = useState<number>();
+  const [mode, setMode] = useState<CleanMode>("ai");
+  const [progress, setProgress] = useState<{ completed: number; total: number }>();
+  const [selectedLine, setSelectedLine] = useState("");
+  // Exact fingerprint matching when undefined.
+  const [similarityThreshold, setSimilarityThreshold] = useState<number>();
+  const [minLevel, setMinLevel] = useState<SeverityLevel>();
+  const [redact, setRedact] = useState(true);
+  const [redactions, setRedactions] = useState<Redaction[]>();
+  const [sourceMaps, setSourceMaps] = useState<SourceMapFile[]>([]);
+  const [project, setProject] = useState(() => localStorage.getItem(PROJECT_STORAGE_KEY) ?? "");
+  const {
+    rules: normalizationRules,
+    setRules: setNormalizationRules,
+    resetRules,
+    droppedRules,
+  } = useNormalizationRules();
+  const abortControllerRef = useRef<AbortController>();
+  const { data: providers } = useQuery<{ providers: ProviderInfo[] }>({ queryKey: ["/api/providers"] });
+  const defaultProvider = providers?.providers.find((provider) => provider.default);
   const { toast } = useToast();
 
-  const leftPanelRef = useRef<HTMLDivElement>(null);
-  const rightPanelRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    localStorage.setItem(PROJECT_STORAGE_KEY, project);
+  }, [project]);
+
+  useEffect(() => {
+    if (droppedRules.length === 0) return;
+    toast({
+      title: "Fingerprint rules removed",
+      description: `${droppedRules.join(", ")} no longer passed validation and ${droppedRules.length === 1 ? "was" : "were"} removed from your saved rules`,
+      variant: "destructive",
+    });
+  }, [droppedRules, toast]);
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -110,215 +125,409 @@ export default function Home() {
       return;
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsLoading(true);
+    setCleanedLog("");
+    setDiffParts([{ value: inputLog, added: false, removed: false }]);
+    setRemoved(undefined);
+    setDeduplicatedLog(undefined);
+    setGroups(undefined);
+    setSelectedGroup(undefined);
+    setLogFormat(undefined);
+    setCleanedBy(undefined);
+    setTimeWindow(undefined);
+    setRedactions(undefined);
+    setActiveLogId(undefined);
+    setProgress(undefined);
+
+    // Secrets are masked before the log leaves the browser and put back into
+    // everything the server returns. Redaction keeps line numbers unchanged.
+    const redaction = redact ? redactLog(inputLog) : { text: inputLog, redactions: [] };
+    const restore = (text: string) => rehydrate(text, redaction.redactions);
+
+    // Streamed text is rendered at most once a frame. Secrets are put back
+    // once per chunk, when it completes, instead of on every delta.
+    const streamedChunks: string[] = [];
+    let renderFrame: number | undefined;
+    const renderStreamed = () => {
+      renderFrame ??= requestAnimationFrame(() => {
+        renderFrame = undefined;
+        setCleanedLog(streamedChunks.filter(Boolean).join("\n"));
+      });
+    };
+
     try {
-      const dedupedLog = deduplicateLog(inputLog);
-      const response = await apiRequest("POST", "/api/clean-log", { log: dedupedLog });
-      const data = await response.json();
-      setCleanedLog(data.cleaned);
-      const parts = diffLines(inputLog, data.cleaned);
+      // Deduplication runs server-side so the stored run holds the log as the
+      // server processed it: redacted, symbolicated and retraced.
+      let result: CleanLogResult | undefined;
+      const request = {
+        log: redaction.text,
+        mode,
+        normalizationRules,
+        similarityThreshold,
+        minLevel,
+        redact,
+        sourceMaps,
+        project: project.trim() || undefined,
+      };
+
+      await streamRequest("POST", "/api/clean-log", request, cleanLogEventSchema, ({ event, data }) => {
+        switch (event) {
+          case "start":
+            setProgress({ completed: 0, total: data.totalChunks });
+            break;
+          case "delta":
+            streamedChunks[data.index] = (streamedChunks[data.index] ?? "") + data.text;
+            renderStreamed();
+            break;
+          case "chunk":
+            streamedChunks[data.index] = restore(data.cleaned);
+            renderStreamed();
+            setProgress((current) => current && { ...current, completed: current.completed + 1 });
+            break;
+          case "done":
+            result = data;
+            break;
+          case "error":
+            throw new Error(data.error);
+        }
+      }, controller.signal);
+
+      if (!result) {
+        throw new Error("The server closed the connection before cleaning finished");
+      }
+
+      // Symbolication and retracing rewrite the log server-side; removed
+      // ranges refer to the rewritten text, so it replaces the input.
+      const original = restore(result.input);
+      const cleaned = restore(result.cleaned);
+      setInputLog(original);
+      setCleanedLog(cleaned);
+      const parts = diffLines(original, cleaned);
       setDiffParts(parts);
+      setRemoved(result.removed);
+      setDeduplicatedLog(restore(result.deduplicated));
+      setGroups(result.groups.map((group) => ({ ...group, example: restore(group.example) })));
+      setRedactions(redaction.redactions);
+      setLogFormat(result.meta.format);
+      setCleanedBy(result.meta.provider);
+      setActiveLogId(result.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/logs"] });
 
-      toast({
-        title: "Success",
-        description: "Log cleaned successfully",
-      });
+      const failedChunks = result.chunks.filter((chunk) => chunk.status === "failed");
+      if (result.meta.fallbackReason) {
+        toast({
+          title: "Cleaned without AI",
+          description: result.meta.fallbackReason,
+        });
+      } else if (failedChunks.length > 0) {
+        toast({
+          title: "Partially cleaned",
+          description: `${failedChunks.length} of ${result.chunks.length} parts of the log could not be cleaned and were kept as-is`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Success",
+          description: result.meta.symbolicatedFrames + result.meta.retracedFrames > 0
+            ? `Log cleaned successfully, ${result.meta.symbolicatedFrames + result.meta.retracedFrames} stack frames de-obfuscated`
+            : "Log cleaned successfully",
+        });
+      }
     } catch (error) {
-      toast({
-        title: "Error",
-        description: error instanceof Error ? error.message : "Failed to clean log",
-        variant: "destructive",
-      });
+      if (controller.signal.aborted) {
+        setCleanedLog("");
+        toast({
+          title: "Cancelled",
+          description: "Log cleaning was cancelled",
+        });
+      } else {
+        toast({
+          title: "Error",
+          description: error instanceof Error ? error.message : "Failed to clean log",
+          variant: "destructive",
+        });
+      }
     } finally {
+      if (renderFrame !== undefined) cancelAnimationFrame(renderFrame);
+      abortControllerRef.current = undefined;
       setIsLoading(false);
+      setProgress(undefined);
     }
   };
 
-  const handleExport = () => {
-    if (!cleanedLog) {
-      toast({
-        title: "Error",
-        description: "No cleaned log to export",
-        variant: "destructive",
-      });
-      return;
+  // Stored runs and in-flight results have no intermediate stage to compare.
+  // Restoring edits the cleaned log, so it is only offered while that is the
+  // right pane.
+  const comparison = useMemo(() => {
+    if (deduplicatedLog === undefined || isLoading) {
+      return { diffParts, removed, rightLog: cleanedLog, restorable: true };
     }
 
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    downloadTextFile(cleanedLog, `cleaned-log-${timestamp}.txt`);
+    switch (stagePair) {
+      case "original-deduplicated":
+        return {
+          diffParts: [],
+          removed: removed?.filter((range) => range.reason !== "non-critical"),
+          rightLog: deduplicatedLog,
+          restorable: false,
+        };
+      case "deduplicated-cleaned":
+        return {
+          diffParts: diffLines(deduplicatedLog, cleanedLog),
+          removed: undefined,
+          rightLog: cleanedLog,
+          restorable: false,
+        };
+      case "original-cleaned":
+        return { diffParts, removed, rightLog: cleanedLog, restorable: true };
+    }
+  }, [deduplicatedLog, isLoading, stagePair, diffParts, removed, cleanedLog]);
 
-    toast({
-      title: "Success",
-      description: "Log exported successfully",
-    });
+  const handleRestore = (range: RemovedRange) => {
+    const restored = restoreRange(inputLog, cleanedLog, range);
+    setCleanedLog(restored);
+    setDiffParts(diffLines(inputLog, restored));
+    setRemoved((current) => current?.filter((r) => r !== range));
   };
 
-  const handleCopy = async () => {
-    if (!cleanedLog) {
-      toast({
-        title: "Error",
-        description: "No cleaned log to copy",
-        variant: "destructive",
-      });
-      return;
+  // Occurrences are highlighted in the original log, which the deduplicated
+  // comparison does not show.
+  const handleSelectGroup = (group: ErrorGroup | undefined) => {
+    setSelectedGroup(group);
+    if (group && stagePair === "deduplicated-cleaned") {
+      setStagePair("original-cleaned");
     }
+  };
+
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
 
+  const handleOpenLog = async (id: number) => {
     try {
-      await navigator.clipboard.writeText(cleanedLog);
-      toast({
-        title: "Success",
-        description: "Log copied to clipboard",
-      });
+      const response = await apiRequest("GET", `/api/logs/${id}`);
+      const log: Log = await response.json();
+      setInputLog(log.originalContent);
+      setCleanedLog(log.cleanedContent);
+      setDiffParts(diffLines(log.originalContent, log.cleanedContent));
+      setRemoved(undefined);
+      setDeduplicatedLog(undefined);
+      setGroups(undefined);
+      setSelectedGroup(undefined);
+      setLogFormat(undefined);
+      setCleanedBy(undefined);
+      setTimeWindow(undefined);
+      setRedactions(undefined);
+      setActiveLogId(log.id);
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to copy to clipboard",
+        description: error instanceof Error ? error.message : "Failed to open log",
         variant: "destructive",
       });
     }
   };
 
-  const syncScroll = (source: HTMLDivElement, target: HTMLDivElement) => {
-    target.scrollTop = source.scrollTop;
+  const handleLogDeleted = (id: number) => {
+    if (id === activeLogId) {
+      setActiveLogId(undefined);
+    }
   };
 
   return (
-    <div className="container mx-auto p-6 max-w-7xl">
-      <div className="space-y-6">
-        <div className="space-y-2">
-          <h1 className="text-3xl font-bold tracking-tighter">Error Log Cleaner</h1>
-          <p className="text-muted-foreground">
-            Clean and deduplicate your error logs using AI
-          </p>
-        </div>
-
-        <Card className="p-6 bg-muted/50">
-          <div className="flex gap-4 items-start">
-            <Info className="h-5 w-5 text-muted-foreground mt-0.5 flex-shrink-0" />
-            <div className="space-y-2">
-              <h2 className="font-semibold">How it works</h2>
-              <ol className="space-y-2 text-sm text-muted-foreground">
-                <li>1. Paste or upload your log file</li>
-                <li>2. Press <span className="font-medium text-foreground">Clean & Deduplicate with AI</span></li>
-                <li>3. The system will:
-                  <ul className="ml-4 mt-1 space-y-1">
-                    <li>• Automatically deduplicate repeated errors using advanced algorithms</li>
-                    <li>• Process the result with gpt-4o-mini for intelligent cleanup</li>
-                    <li>• Remove non-critical errors and unhelpful log entries</li>
-                  </ul>
-                </li>
-              </ol>
-            </div>
-          </div>
-        </Card>
-
-        <Card className="p-6">
-          <div className="space-y-4">
-            <Textarea
-              placeholder="Paste your error log here..."
-              value={inputLog}
-              onChange={(e) => setInputLog(e.target.value)}
-              className="min-h-[200px] font-mono"
-            />
-
-            <div className="flex flex-wrap gap-4">
-              <div className="flex-1">
-                <input
-                  type="file"
-                  accept=".txt,.log"
-                  onChange={handleFileUpload}
-                  className="hidden"
-                  id="file-upload"
-                />
-                <label htmlFor="file-upload">
-                  <Button variant="outline" className="w-full" asChild>
-                    <span>
-                      <Upload className="mr-2 h-4 w-4" />
-                      Upload Log File
-                    </span>
-                  </Button>
-                </label>
+    <SidebarProvider>
+      <HistorySidebar
+        activeId={activeLogId}
+        onSelect={handleOpenLog}
+        onDeleted={handleLogDeleted}
+      />
+      <SidebarInset>
+        <div className="container mx-auto p-6 max-w-7xl">
+          <div className="space-y-6">
+            <div className="flex items-start gap-2">
+              <SidebarTrigger className="mt-1" />
+              <div className="space-y-2">
+                <h1 className="text-3xl font-bold tracking-tighter">Error Log Cleaner</h1>
+                <p className="text-muted-foreground">
+                  Clean and deduplicate your error logs using AI
+                </p>
               </div>
-
-              <Button
-                onClick={handleClean}
-                disabled={!inputLog || isLoading}
-                className="flex-1"
-              >
-                {isLoading ? (
-                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                ) : (
-                  <CheckCircle className="mr-2 h-4 w-4" />
-                )}
-                Clean & Deduplicate with AI
-              </Button>
             </div>
-          </div>
-        </Card>
 
-        {cleanedLog && (
-          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-            <Card className="p-6">
-              <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
-                <AlertCircle className="h-5 w-5 text-red-500" />
-                Removed Lines
-              </h2>
-              <ScrollArea
-                ref={leftPanelRef}
-                className="h-[400px] rounded-md border"
-                onScroll={(e) => rightPanelRef.current && syncScroll(e.currentTarget, rightPanelRef.current)}
-              >
-                <pre className="p-4 font-mono text-sm">
-                  {diffParts.map((part, i) => (
-                    <span
-                      key={i}
-                      className={cn(
-                        part.removed && "bg-red-100 dark:bg-red-900/30 line-through"
-                      )}
-                    >
-                      {part.value}
-                    </span>
-                  ))}
-                </pre>
-              </ScrollArea>
+            <Card className="p-6 bg-muted/50">
+              <div className="flex gap-4 items-start">
+                <Info className="h-5 w-5 text-muted-foreground mt-0.5 flex-shrink-0" />
+                <div className="space-y-2">
+                  <h2 className="font-semibold">How it works</h2>
+                  <ol className="space-y-2 text-sm text-muted-foreground">
+                    <li>1. Paste or upload your log file</li>
+                    <li>2. Press <span className="font-medium text-foreground">Clean & Deduplicate with AI</span>, or turn on <span className="font-medium text-foreground">Rules only</span> to clean offline without AI</li>
+                    <li>3. The system will:
+                      <ul className="ml-4 mt-1 space-y-1">
+                        <li>• Automatically deduplicate repeated errors using advanced algorithms</li>
+                        <li>• {cleanupStep(mode, defaultProvider)}</li>
+                        <li>• Remove non-critical errors and unhelpful log entries</li>
+                      </ul>
+                    </li>
+                  </ol>
+                </div>
+              </div>
             </Card>
 
             <Card className="p-6">
-              <div className="flex justify-between items-center mb-4">
-                <h2 className="text-xl font-semibold flex items-center gap-2">
-                  <CheckCircle className="h-5 w-5 text-green-500" />
-                  Cleaned Log
-                </h2>
-                <div className="flex gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={handleCopy}
-                  >
-                    <Copy className="mr-2 h-4 w-4" />
-                    Copy
-                  </Button>
+              <div className="space-y-4">
+                <Textarea
+                  placeholder="Paste your error log here..."
+                  value={inputLog}
+                  onChange={(e) => setInputLog(e.target.value)}
+                  onSelect={(e) => setSelectedLine(lineAt(e.currentTarget.value, e.currentTarget.selectionStart))}
+                  className="min-h-[200px] font-mono"
+                />
+
+                <ProguardMappingUpload project={project} onProjectChange={setProject} />
+
+                {inputLog && (
+                  <LevelFilter log={inputLog} minLevel={minLevel} onMinLevelChange={setMinLevel} />
+                )}
+
+                <div className="flex flex-wrap gap-4">
+                  <div className="flex-1">
+                    <input
+                      type="file"
+                      accept=".txt,.log"
+                      onChange={handleFileUpload}
+                      className="hidden"
+                      id="file-upload"
+                    />
+                    <label htmlFor="file-upload">
+                      <Button variant="outline" className="w-full" asChild>
+                        <span>
+                          <Upload className="mr-2 h-4 w-4" />
+                          Upload Log File
+                        </span>
+                      </Button>
+                    </label>
+                  </div>
+
+                  <SourceMapUpload files={sourceMaps} onFilesChange={setSourceMaps} />
+
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="rules-only"
+                      checked={mode === "rules"}
+                      onCheckedChange={(checked) => setMode(checked ? "rules" : "ai")}
+                    />
+                    <Label htmlFor="rules-only">Rules only</Label>
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id="group-similar"
+                      checked={similarityThreshold !== undefined}
+                      onCheckedChange={(checked) => setSimilarityThreshold(checked ? 0.7 : undefined)}
+                    />
+                    <Label htmlFor="group-similar">Group similar</Label>
+                    {similarityThreshold !== undefined && (
+                      <>
+                        <Slider
+                          className="w-24"
+                          min={0.3}
+                          max={1}
+                          step={0.05}
+                          value={[similarityThreshold]}
+                          onValueChange={([value]) => setSimilarityThreshold(value)}
+                          aria-label="Similarity threshold"
+                        />
+                        <span className="w-10 text-sm tabular-nums text-muted-foreground">
+                          {Math.round(similarityThreshold * 100)}%
+                        </span>
+                      </>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Switch id="redact" checked={redact} onCheckedChange={setRedact} />
+                    <Label htmlFor="redact">Redact secrets</Label>
+                  </div>
+
+                  <NormalizationRulesDialog
+                    rules={normalizationRules}
+                    onRulesChange={setNormalizationRules}
+                    onReset={resetRules}
+                    sampleLine={selectedLine || inputLog.split("\n").find((line) => line.trim() !== "") || ""}
+                  />
+
                   <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={handleExport}
+                    onClick={handleClean}
+                    disabled={!inputLog || isLoading}
+                    className="flex-1"
                   >
-                    <Download className="mr-2 h-4 w-4" />
-                    Export
+                    {isLoading ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <CheckCircle className="mr-2 h-4 w-4" />
+                    )}
+                    {mode === "rules" ? "Clean & Deduplicate" : "Clean & Deduplicate with AI"}
                   </Button>
                 </div>
+
+                {isLoading && (
+                  <div className="flex items-center gap-4">
+                    <Progress
+                      value={progress ? (progress.completed / progress.total) * 100 : 0}
+                      className="flex-1"
+                    />
+                    <span className="text-sm text-muted-foreground whitespace-nowrap">
+                      {progress ? `${progress.completed} / ${progress.total} parts` : "Starting…"}
+                    </span>
+                    <Button variant="outline" size="sm" onClick={handleCancel}>
+                      <X className="mr-2 h-4 w-4" />
+                      Cancel
+                    </Button>
+                  </div>
+                )}
               </div>
-              <ScrollArea
-                ref={rightPanelRef}
-                className="h-[400px] rounded-md border"
-                onScroll={(e) => leftPanelRef.current && syncScroll(e.currentTarget, leftPanelRef.current)}
-              >
-                <pre className="p-4 font-mono text-sm">{cleanedLog}</pre>
-              </ScrollArea>
             </Card>
+
+            {deduplicatedLog !== undefined && !isLoading && (
+              <StageSummary
+                original={inputLog}
+                deduplicated={deduplicatedLog}
+                cleaned={cleanedLog}
+                cleanedBy={cleanedBy}
+                value={stagePair}
+                onValueChange={setStagePair}
+              />
+            )}
+
+            {redactions && redactions.length > 0 && !isLoading && <RedactionReport redactions={redactions} />}
+
+            {groups && logFormat && !isLoading && (
+              <TimelineChart log={inputLog} format={logFormat} groups={groups} onWindowChange={setTimeWindow} />
+            )}
+
+            {groups && groups.length > 0 && !isLoading && (
+              <TemplateTable groups={groups} selected={selectedGroup} onSelect={handleSelectGroup} />
+            )}
+
+            {(cleanedLog || isLoading) && (
+              <LogResultPanes
+                diffParts={comparison.diffParts}
+                originalLog={inputLog}
+                removed={comparison.removed}
+                highlighted={selectedGroup?.occurrences}
+                timeWindow={timeWindow}
+                format={logFormat}
+                onRestore={comparison.restorable ? handleRestore : undefined}
+                cleanedLog={comparison.rightLog}
+                logId={activeLogId}
+              />
+            )}
           </div>
-        )}
-      </div>
-    </div>
+        </div>
+      </SidebarInset>
+    </SidebarProvider>
   );
 }
\ No newline at end of file
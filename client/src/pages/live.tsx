@@ -0,0 +1,114 @@
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { ArrowLeft, Radio } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { SeverityBadge } from "@/components/severity-badge";
+import { useLiveTail, type LiveStatus } from "@/hooks/use-live-tail";
+import { cn } from "@/lib/utils";
+
+const STATUS_LABELS: Record<LiveStatus, string> = {
+  connecting: "Connecting…",
+  open: "Live",
+  closed: "Disconnected, retrying…",
+};
+
+const STATUS_STYLES: Record<LiveStatus, string> = {
+  connecting: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200",
+  open: "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200",
+  closed: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-200",
+};
+
+function feedCommand(): string {
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  return `tail -f app.log | websocat ${protocol}//${window.location.host}/api/live/feed`;
+}
+
+export default function Live() {
+  const { events, sources, status, error } = useLiveTail();
+  const [filter, setFilter] = useState("");
+
+  // Events stay where they first appeared; repeats only bump their counter.
+  const visible = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return events
+      .filter((event) => query === "" || event.text.toLowerCase().includes(query))
+      .sort((a, b) => a.id - b.id);
+  }, [events, filter]);
+
+  const total = events.reduce((sum, event) => sum + event.count, 0);
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Link href="/">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div className="space-y-1">
+            <h1 className="text-2xl font-bold flex items-center gap-2">
+              <Radio className="h-5 w-5" />
+              Live Tail
+            </h1>
+            <p className="text-sm text-muted-foreground">
+              {events.length} unique events from {total} received
+              {sources.includes("file") && " · following the server's log file"}
+            </p>
+          </div>
+          <Badge variant="outline" className={cn("ml-auto border-transparent", STATUS_STYLES[status])}>
+            {STATUS_LABELS[status]}
+          </Badge>
+        </div>
+
+        {error && (
+          <Card className="p-4 text-sm text-destructive">{error}</Card>
+        )}
+
+        <Card className="p-6 space-y-4">
+          <Input
+            placeholder="Filter events…"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+          />
+
+          {events.length === 0 ? (
+            <div className="space-y-2 py-8 text-center text-sm text-muted-foreground">
+              <p>Waiting for log events. Stream a log to the server with:</p>
+              <code className="block font-mono text-xs">{feedCommand()}</code>
+            </div>
+          ) : (
+            <ScrollArea className="h-[600px] rounded-md border">
+              <div className="divide-y">
+                {visible.map((event) => (
+                  <div key={event.id} className="flex items-start gap-3 p-3">
+                    <div className="w-16 shrink-0">
+                      {event.level && <SeverityBadge level={event.level} />}
+                    </div>
+                    <pre className="flex-1 whitespace-pre-wrap break-all font-mono text-xs">
+                      {event.text}
+                      {event.count > 1 && (
+                        <span className="ml-2 font-semibold text-primary">[x{event.count}]</span>
+                      )}
+                    </pre>
+                    <span
+                      className="shrink-0 font-mono text-xs text-muted-foreground"
+                      title={`First seen ${format(new Date(event.firstSeen), "PPpp")}`}
+                    >
+                      {format(new Date(event.lastSeen), "HH:mm:ss")}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
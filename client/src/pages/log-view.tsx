@@ -0,0 +1,79 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { diffLines } from "diff";
+import { formatDistanceToNow } from "date-fns";
+import { ArrowLeft, FileText, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { LogResultPanes } from "@/components/log-result-panes";
+import type { Log } from "@shared/schema";
+
+export default function LogView() {
+  const { id } = useParams<{ id: string }>();
+  const { data: log, isLoading, error } = useQuery<Log>({
+    queryKey: [`/api/logs/${id}`],
+  });
+
+  const diffParts = useMemo(
+    () => (log ? diffLines(log.originalContent, log.cleanedContent) : []),
+    [log],
+  );
+
+  return (
+    <div className="container mx-auto p-6 max-w-7xl">
+      <div className="space-y-6">
+        <div className="flex items-center gap-4">
+          <Link href="/">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+          </Link>
+          <div className="space-y-1">
+            <h1 className="text-2xl font-bold">Cleaned Log #{id}</h1>
+            {log && (
+              <p className="text-sm text-muted-foreground">
+                Cleaned {formatDistanceToNow(new Date(log.createdAt), { addSuffix: true })}
+              </p>
+            )}
+          </div>
+        </div>
+
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {error && (
+          <Card className="p-6">
+            <p className="text-muted-foreground">
+              This log could not be loaded. It may have been deleted.
+            </p>
+          </Card>
+        )}
+
+        {log && (
+          <>
+            <Card className="p-6">
+              <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+                <FileText className="h-5 w-5 text-muted-foreground" />
+                Original Log
+              </h2>
+              <ScrollArea className="h-[200px] rounded-md border">
+                <pre className="p-4 font-mono text-sm">{log.originalContent}</pre>
+              </ScrollArea>
+            </Card>
+
+            <LogResultPanes
+              diffParts={diffParts}
+              cleanedLog={log.cleanedContent}
+              logId={log.id}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
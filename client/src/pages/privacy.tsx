@@ -20,20 +20,41 @@ export default function Privacy() {
           <div className="prose dark:prose-invert">
             <h2>Data Collection and Usage</h2>
             <p>
-              We only process your error logs for the purpose of cleaning and analysis. 
-              Your logs are never stored permanently and are deleted immediately after processing.
+              We only process your error logs for the purpose of cleaning and analysis. Every cleaning
+              run is saved so that you can reopen it from the history and share its link; see Data
+              Storage below for what is kept and how to delete it.
             </p>
 
-            <h2>OpenAI Integration</h2>
+            <h2>Redaction of Secrets and Personal Data</h2>
             <p>
-              We use OpenAI's API to process and clean your logs. While logs are sent to OpenAI for 
-              processing, they are not used for training or stored beyond the immediate processing needs.
+              Before a log leaves your browser, API keys, tokens, passwords, connection strings, email
+              addresses, card numbers and IP addresses are replaced by placeholders such as
+              [REDACTED_EMAIL_1]. The original values stay in your browser and are put back into the
+              results there. The server applies the same redaction again before a log is stored or sent
+              to an AI provider.
+            </p>
+
+            <h2>AI Providers</h2>
+            <p>
+              When you clean a log with AI, the redacted log is sent to the configured AI provider
+              (OpenAI, Anthropic or an OpenAI-compatible server) for processing. Logs cleaned with the
+              rules-only mode never leave our server. What a provider does with the data it receives is
+              governed by its API terms.
             </p>
 
             <h2>Data Storage</h2>
             <p>
-              All processing is done in-memory and no logs are permanently stored on our servers.
-              Once your session ends, all data is automatically cleared.
+              Each run is stored on our server with its log as it was processed, the cleaned result and
+              the time it was made. The stored log is the redacted text, with minified and obfuscated stack
+              frames already resolved; unless you turn redaction off, the redacted values themselves are never
+              sent to or stored on the server. ProGuard/R8 mappings uploaded for a project are stored until they are replaced or
+              deleted.
+            </p>
+            <p>
+              Runs are kept until they are deleted; there is no automatic expiry. You can delete a run
+              from the history sidebar, or with a <code>DELETE /api/logs/:id</code> request, and a
+              project's mapping with <code>DELETE /api/projects/:project/proguard-mapping</code>. Anyone
+              with a run's link can view it until then, so delete runs you no longer need to share.
             </p>
 
             <h2>Contact</h2>
@@ -0,0 +1,5 @@
+CREATE TABLE "logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"original_content" text NOT NULL,
+	"cleaned_content" text NOT NULL
+);
@@ -0,0 +1,3 @@
+ALTER TABLE "logs" ADD COLUMN "original_size" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "logs" ADD COLUMN "cleaned_size" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "logs" ADD COLUMN "created_at" timestamp DEFAULT now() NOT NULL;
\ No newline at end of file
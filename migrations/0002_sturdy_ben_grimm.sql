@@ -0,0 +1,6 @@
+CREATE TABLE "proguard_mappings" (
+	"project" text PRIMARY KEY NOT NULL,
+	"content" text NOT NULL,
+	"size" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
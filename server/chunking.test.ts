@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { cleanInChunks, splitIntoChunks } from "./chunking";
+import type { CleanOptions, LogCleanerProvider } from "./providers";
+
+function fakeProvider(clean: (log: string, options?: CleanOptions) => Promise<string>, maxInputChars = 20): LogCleanerProvider {
+  return { name: "openai", defaultModel: "test", maxInputChars, clean };
+}
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i}`).join("\n");
+
+describe("splitIntoChunks", () => {
+  it("fills chunks up to the limit on line boundaries", () => {
+    const chunks = splitIntoChunks("a\nb\nc", 4);
+    expect(chunks.map(({ startLine, endLine, text }) => [startLine, endLine, text])).toEqual([
+      [0, 1, "a\nb"],
+      [2, 2, "c"],
+    ]);
+  });
+
+  it("keeps an error and its stack trace in one chunk", () => {
+    const log = "x\nError: boom\n    at f (a.js:1)\n    at g (a.js:2)\ny";
+    expect(splitIntoChunks(log, 49).map(({ startLine, endLine }) => [startLine, endLine])).toEqual([
+      [0, 0],
+      [1, 3],
+      [4, 4],
+    ]);
+  });
+
+  it("gives a line longer than one chunk a chunk of its own, uncut", () => {
+    const long = "z".repeat(30);
+    const chunks = splitIntoChunks(`short\n${long}\nend`, 10);
+    expect(chunks.map((chunk) => chunk.text)).toEqual(["short", long, "end"]);
+    expect(chunks.map((chunk) => chunk.index)).toEqual([0, 1, 2]);
+  });
+});
+
+describe("cleanInChunks", () => {
+  it("cleans at most `concurrency` chunks at once and stitches them in order", async () => {
+    let active = 0;
+    let peak = 0;
+    const provider = fakeProvider(async (log) => {
+      peak = Math.max(peak, ++active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active--;
+      return log.toUpperCase();
+    });
+
+    const log = lines(12);
+    const result = await cleanInChunks(provider, log, { concurrency: 2 });
+    expect(result.chunks.length).toBeGreaterThan(2);
+    expect(peak).toBe(2);
+    expect(result.cleaned).toBe(log.toUpperCase());
+  });
+
+  it("keeps the original text of a chunk the provider fails on", async () => {
+    const provider = fakeProvider(async (log) => {
+      if (log.includes("line 3")) throw new Error("rate limited");
+      return log.toUpperCase();
+    }, 14);
+
+    const result = await cleanInChunks(provider, lines(6));
+    expect(result.cleaned).toBe("LINE 0\nLINE 1\nline 2\nline 3\nLINE 4\nLINE 5");
+    expect(result.chunks).toMatchObject([
+      { index: 0, status: "cleaned" },
+      { index: 1, status: "failed", error: "rate limited", startLine: 2, endLine: 3 },
+      { index: 2, status: "cleaned" },
+    ]);
+  });
+
+  it("fails when no chunk could be cleaned", async () => {
+    const provider = fakeProvider(async () => {
+      throw new Error("down");
+    });
+    await expect(cleanInChunks(provider, lines(6))).rejects.toThrow("down");
+  });
+
+  it("stops on abort instead of keeping the chunk", async () => {
+    const controller = new AbortController();
+    const started: string[] = [];
+    const provider = fakeProvider(
+      (log, options) =>
+        new Promise((_, reject) => {
+          started.push(log);
+          options?.signal?.addEventListener("abort", () => reject(new Error("aborted")));
+          if (started.length === 1) controller.abort();
+        }),
+    );
+
+    await expect(cleanInChunks(provider, lines(12), { concurrency: 1, signal: controller.signal })).rejects.toThrow(
+      "aborted",
+    );
+    expect(started).toHaveLength(1);
+  });
+});
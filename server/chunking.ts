@@ -0,0 +1,149 @@
+import { splitStackTraceBlocks } from "@shared/dedup";
+import type { ChunkStatus } from "@shared/schema";
+import type { CleanOptions, LogCleanerProvider } from "./providers";
+
+export const DEFAULT_CHUNK_CONCURRENCY = Number(process.env.CHUNK_CONCURRENCY) || 4;
+
+export interface LogChunk {
+  index: number;
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+// Chunks end on block boundaries so an error and its stack trace are never
+// cleaned separately. Only a single block longer than the limit is cut
+// mid-block, and then on a line boundary.
+export function splitIntoChunks(log: string, maxChars: number): LogChunk[] {
+  const lines = log.split("\n");
+  const chunks: LogChunk[] = [];
+  let start = 0;
+  let size = 0;
+
+  const flush = (end: number) => {
+    if (end < start) return;
+    chunks.push({
+      index: chunks.length,
+      startLine: start,
+      endLine: end,
+      text: lines.slice(start, end + 1).join("\n"),
+    });
+    start = end + 1;
+    size = 0;
+  };
+
+  for (const segment of splitStackTraceBlocks(log)) {
+    const first = segment.kind === "block" ? segment.startLine : segment.line;
+    const last = segment.kind === "block" ? segment.endLine : segment.line;
+    const segmentSize = lines.slice(first, last + 1).reduce((sum, line) => sum + line.length + 1, 0);
+
+    if (size > 0 && size + segmentSize > maxChars) {
+      flush(first - 1);
+    }
+
+    if (segmentSize > maxChars) {
+      for (let i = first; i <= last; i++) {
+        if (size > 0 && size + lines[i].length + 1 > maxChars) flush(i - 1);
+        size += lines[i].length + 1;
+      }
+    } else {
+      size += segmentSize;
+    }
+  }
+
+  flush(lines.length - 1);
+  return chunks;
+}
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+export interface ChunkedCleanOptions extends Omit<CleanOptions, "onDelta"> {
+  maxChunkChars?: number;
+  concurrency?: number;
+  onStart?: (totalChunks: number) => void;
+  // Enables provider streaming; deltas are tagged with their chunk index
+  // since chunks are cleaned concurrently and arrive interleaved.
+  onChunkDelta?: (index: number, text: string) => void;
+  onChunkDone?: (chunk: ChunkStatus, cleaned: string) => void;
+}
+
+export interface ChunkedCleanResult {
+  cleaned: string;
+  chunks: ChunkStatus[];
+}
+
+// A chunk the provider fails on is kept as-is so the stitched log stays
+// complete; the request only fails if no chunk could be cleaned at all.
+export async function cleanInChunks(
+  provider: LogCleanerProvider,
+  log: string,
+  options: ChunkedCleanOptions = {},
+): Promise<ChunkedCleanResult> {
+  const maxChars = provider.maxInputChars ?? Infinity;
+  const chunks = Number.isFinite(maxChars)
+    ? splitIntoChunks(log, Math.min(maxChars, options.maxChunkChars ?? maxChars))
+    : [{ index: 0, startLine: 0, endLine: log.split("\n").length - 1, text: log }];
+
+  options.onStart?.(chunks.length);
+
+  const { onChunkDelta } = options;
+  const outcomes = await mapWithConcurrency(
+    chunks,
+    options.concurrency ?? DEFAULT_CHUNK_CONCURRENCY,
+    async (chunk) => {
+      let cleaned: string;
+      let error: unknown;
+
+      try {
+        cleaned = await provider.clean(chunk.text, {
+          model: options.model,
+          signal: options.signal,
+          onDelta: onChunkDelta && ((text) => onChunkDelta(chunk.index, text)),
+        });
+      } catch (err) {
+        if (options.signal?.aborted) throw err;
+        cleaned = chunk.text;
+        error = err;
+      }
+
+      const status: ChunkStatus = {
+        index: chunk.index,
+        startLine: chunk.startLine,
+        endLine: chunk.endLine,
+        inputSize: chunk.text.length,
+        outputSize: cleaned.length,
+        status: error ? "failed" : "cleaned",
+        ...(error ? { error: error instanceof Error ? error.message : String(error) } : {}),
+      };
+      options.onChunkDone?.(status, cleaned);
+      return { status, cleaned, error };
+    },
+  );
+
+  const firstFailure = outcomes.find((outcome) => outcome.error);
+  if (firstFailure && outcomes.every((outcome) => outcome.error)) {
+    throw firstFailure.error;
+  }
+
+  return {
+    cleaned: outcomes.map((outcome) => outcome.cleaned).join("\n"),
+    chunks: outcomes.map((outcome) => outcome.status),
+  };
+}
@@ -0,0 +1,52 @@
+import path from "path";
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle as drizzleNeon } from "drizzle-orm/neon-serverless";
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export type StorageDriver = "memory" | "postgres" | "pglite";
+
+const STORAGE_DRIVERS: StorageDriver[] = ["memory", "postgres", "pglite"];
+
+export function resolveStorageDriver(): StorageDriver {
+  const configured = process.env.STORAGE_DRIVER?.toLowerCase();
+
+  if (configured) {
+    if (!STORAGE_DRIVERS.includes(configured as StorageDriver)) {
+      throw new Error(
+        `Unknown STORAGE_DRIVER "${configured}", expected one of: ${STORAGE_DRIVERS.join(", ")}`,
+      );
+    }
+    return configured as StorageDriver;
+  }
+
+  return process.env.DATABASE_URL ? "postgres" : "memory";
+}
+
+export function connectPostgres(url = process.env.DATABASE_URL): Database {
+  if (!url) {
+    throw new Error("DATABASE_URL, ensure the database is provisioned");
+  }
+
+  const pool = new Pool({ connectionString: url });
+  return drizzleNeon(pool, { schema });
+}
+
+// PGlite runs Postgres in-process, so there is nothing provisioned ahead of
+// time: the schema is applied from the drizzle-kit migrations on startup.
+// Omitting the data directory keeps the database purely in memory.
+export async function connectPglite(dataDir = process.env.PGLITE_DATA_DIR): Promise<Database> {
+  const client = new PGlite(dataDir);
+  const db = drizzlePglite(client, { schema });
+
+  await migrate(db, { migrationsFolder: path.resolve(process.cwd(), "migrations") });
+  return db;
+}
@@ -1,9 +1,15 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { defaultProviderName } from "./providers";
+import { attachLiveTail } from "./live-tail";
 import { setupVite, serveStatic, log } from "./vite";
 
+// Fails on startup, rather than on the first request, when
+// LOG_CLEANER_PROVIDER names a provider that does not exist.
+defaultProviderName();
+
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: "50mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -38,6 +44,7 @@ app.use((req, res, next) => {
 
 (async () => {
   const server = registerRoutes(app);
+  attachLiveTail(server);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
@@ -0,0 +1,134 @@
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { afterEach, describe, expect, it } from "vitest";
+import WebSocket from "ws";
+import type { LiveMessage } from "@shared/schema";
+import { attachLiveTail, createLiveSession } from "./live-tail";
+
+function collectEvents(session: ReturnType<typeof createLiveSession>) {
+  const texts: string[] = [];
+  session.subscribe((message: LiveMessage) => {
+    if (message.type === "event" && message.event.count === 1) texts.push(message.event.text);
+  });
+  return texts;
+}
+
+describe("createLiveSession", () => {
+  it("keeps partial lines from different inputs apart", () => {
+    const session = createLiveSession();
+    const texts = collectEvents(session);
+    const a = session.openInput();
+    const b = session.openInput();
+
+    a.write("ERROR from feed A par");
+    b.write("ERROR from feed B\n");
+    a.write("tial line\n");
+    a.close();
+    b.close();
+
+    expect(texts.sort()).toEqual(["ERROR from feed A partial line", "ERROR from feed B"]);
+  });
+
+  it("only flushes the input that closes", () => {
+    const session = createLiveSession();
+    const texts = collectEvents(session);
+    const a = session.openInput();
+    const b = session.openInput();
+
+    a.write("ERROR half a li");
+    b.write("ERROR from b\n");
+    b.close();
+    expect(texts).toEqual(["ERROR from b"]);
+
+    a.write("ne\n");
+    a.close();
+    expect(texts).toEqual(["ERROR from b", "ERROR half a line"]);
+  });
+
+  it("decodes characters split across chunks", () => {
+    const session = createLiveSession();
+    const texts = collectEvents(session);
+    const input = session.openInput();
+    const bytes = new TextEncoder().encode("ERROR café ☕\n");
+
+    input.write(bytes.subarray(0, 13));
+    input.write(bytes.subarray(13));
+    input.close();
+
+    expect(texts).toEqual(["ERROR café ☕"]);
+  });
+
+  it("counts repeats in place", () => {
+    const session = createLiveSession();
+    const input = session.openInput();
+    input.write("WARN disk 91% full\nWARN disk 92% full\n");
+    input.close();
+
+    expect(session.snapshot()).toMatchObject([{ id: 1, text: "WARN disk 91% full", count: 2, level: "warn" }]);
+  });
+});
+
+describe("attachLiveTail", () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)));
+  });
+
+  const listen = async () => {
+    server = createServer();
+    const session = attachLiveTail(server, "");
+    await new Promise<void>((resolve) => server!.listen(0, "127.0.0.1", resolve));
+    return { session, url: `ws://127.0.0.1:${(server.address() as AddressInfo).port}` };
+  };
+
+  const connect = (url: string) =>
+    new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(url);
+      socket.once("open", () => resolve(socket));
+      socket.once("error", reject);
+    });
+
+  // Messages can arrive together with the handshake, so they are queued from the start.
+  const connectViewer = async (url: string) => {
+    const queue: LiveMessage[] = [];
+    const waiting: ((message: LiveMessage) => void)[] = [];
+    const socket = new WebSocket(url);
+    socket.on("message", (data) => {
+      const message = JSON.parse(data.toString()) as LiveMessage;
+      const resolve = waiting.shift();
+      if (resolve) resolve(message);
+      else queue.push(message);
+    });
+    await new Promise((resolve, reject) => {
+      socket.once("open", resolve);
+      socket.once("error", reject);
+    });
+    const next = () =>
+      queue.length > 0 ? Promise.resolve(queue.shift()!) : new Promise<LiveMessage>((resolve) => waiting.push(resolve));
+    return { socket, next };
+  };
+
+  it("closes a feed that sends invalid UTF-8 and keeps serving others", async () => {
+    const { session, url } = await listen();
+
+    const bad = await connect(`${url}/api/live/feed`);
+    const badClosed = new Promise((resolve) => bad.once("close", resolve));
+    bad.send("ERROR before\n");
+    bad.send(Buffer.from([0x45, 0x52, 0xff, 0xfe, 0x0a]), { binary: false });
+    await badClosed;
+    expect(session.snapshot().map((event) => event.text)).toEqual(["ERROR before"]);
+
+    const viewer = await connectViewer(`${url}/api/live`);
+    expect(await viewer.next()).toMatchObject({ type: "snapshot", sources: ["feed"] });
+
+    const good = await connect(`${url}/api/live/feed`);
+    const goodClosed = new Promise((resolve) => good.once("close", resolve));
+    good.send("ERROR after\n");
+    good.close();
+    expect(await viewer.next()).toMatchObject({ type: "event", event: { text: "ERROR after" } });
+
+    await goodClosed;
+    viewer.socket.close();
+  });
+});
@@ -0,0 +1,230 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { open, stat } from "fs/promises";
+import { unwatchFile, watchFile } from "fs";
+import { WebSocketServer, type RawData, type WebSocket } from "ws";
+import { createEventSplitter, createStreamingDedupEngine } from "@shared/dedup";
+import { detectFormat, eventFingerprint } from "@shared/formats";
+import { redactLog } from "@shared/redaction";
+import { classifyLine } from "@shared/severity";
+import type { LiveEvent, LiveMessage, LiveSource } from "@shared/schema";
+import { log } from "./vite";
+
+const VIEWER_PATH = "/api/live";
+const FEED_PATH = "/api/live/feed";
+
+// Events kept for viewers; the least recently repeated one is dropped first.
+const MAX_LIVE_EVENTS = Number(process.env.LIVE_MAX_EVENTS) || 500;
+// Repeats within this many seconds count towards the same event; by default
+// an event keeps counting for as long as it is kept.
+const REPEAT_WINDOW_MS = Number(process.env.LIVE_REPEAT_WINDOW) * 1000 || Infinity;
+// A pending event is emitted once no continuation line arrives for this long.
+const EVENT_IDLE_MS = 250;
+const FILE_POLL_MS = 500;
+
+type Listener = (message: LiveMessage) => void;
+
+// One producer of log text: a feed connection or the tailed file.
+export interface LiveInput {
+  // Accepts raw log text; lines and characters may be split across calls.
+  write(chunk: string | Uint8Array): void;
+  // Emits whatever is buffered, e.g. when a feed disconnects.
+  close(): void;
+}
+
+export interface LiveSession {
+  // Each input assembles its own lines and events, so producers writing at
+  // the same time never splice into each other's lines.
+  openInput(): LiveInput;
+  snapshot(): LiveEvent[];
+  subscribe(listener: Listener): () => void;
+}
+
+export function createLiveSession(maxEvents = MAX_LIVE_EVENTS, windowMs = REPEAT_WINDOW_MS): LiveSession {
+  // Viewers only ever see the masked text, as with /api/clean-log.
+  const engine = createStreamingDedupEngine({
+    fingerprint: (event) => eventFingerprint(redactLog(event).text),
+    windowMs,
+    maxFingerprints: maxEvents,
+  });
+  // Keyed by the engine's window id, in order of the latest repeat.
+  const events = new Map<number, LiveEvent>();
+  const listeners = new Set<Listener>();
+
+  const broadcast = (message: LiveMessage) => {
+    listeners.forEach((listener) => listener(message));
+  };
+
+  const record = (raw: string) => {
+    const { group, suppressed } = engine.push(raw);
+    const lastSeen = new Date(group.lastSeen).toISOString();
+    const existing = events.get(group.id);
+    let event: LiveEvent;
+
+    if (suppressed && existing) {
+      event = { ...existing, count: group.count, lastSeen };
+    } else {
+      const text = redactLog(group.example).text;
+      const [first] = text.split("\n", 1);
+      event = {
+        id: group.id,
+        text,
+        count: group.count,
+        level: classifyLine(first, detectFormat(first)),
+        firstSeen: new Date(group.firstSeen).toISOString(),
+        lastSeen,
+      };
+    }
+
+    events.delete(group.id);
+    events.set(group.id, event);
+    broadcast({ type: "event", event });
+
+    if (events.size > maxEvents) {
+      const oldest = events.keys().next().value!;
+      events.delete(oldest);
+      broadcast({ type: "evict", id: oldest });
+    }
+  };
+
+  const openInput = (): LiveInput => {
+    const splitter = createEventSplitter();
+    // Decoded as a stream, so characters split across chunks survive.
+    const decoder = new TextDecoder();
+    let idleTimer: NodeJS.Timeout | undefined;
+
+    return {
+      write: (chunk) => {
+        splitter.push(typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true })).forEach(record);
+
+        clearTimeout(idleTimer);
+        idleTimer = setTimeout(() => splitter.flushPending().forEach(record), EVENT_IDLE_MS);
+      },
+      close: () => {
+        clearTimeout(idleTimer);
+        splitter.push(decoder.decode()).forEach(record);
+        splitter.end().forEach(record);
+      },
+    };
+  };
+
+  return {
+    openInput,
+    snapshot: () => Array.from(events.values()),
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+// Follows a file like `tail -f`, starting at its current end and starting
+// over when it is truncated or rotated.
+function tailFile(path: string, onData: (chunk: Uint8Array) => void, onError: (error: Error) => void): () => void {
+  let offset: number | undefined;
+  let reading = false;
+
+  const readNew = async () => {
+    if (reading) return;
+    reading = true;
+    try {
+      const { size } = await stat(path);
+      if (offset === undefined) offset = size;
+      if (size < offset) offset = 0;
+      if (size === offset) return;
+
+      const handle = await open(path, "r");
+      try {
+        const buffer = Buffer.alloc(size - offset);
+        const { bytesRead } = await handle.read(buffer, 0, buffer.length, offset);
+        offset += bytesRead;
+        onData(buffer.subarray(0, bytesRead));
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      onError(error instanceof Error ? error : new Error(String(error)));
+    } finally {
+      reading = false;
+    }
+  };
+
+  void readNew();
+  watchFile(path, { interval: FILE_POLL_MS }, () => void readNew());
+  return () => unwatchFile(path);
+}
+
+function send(socket: WebSocket, message: LiveMessage) {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+}
+
+function rawDataToBytes(data: RawData): Uint8Array {
+  if (Array.isArray(data)) return Buffer.concat(data);
+  return data instanceof ArrayBuffer ? new Uint8Array(data) : data;
+}
+
+// Viewers connect to /api/live and receive a snapshot followed by updates.
+// Producers stream raw log text to /api/live/feed; LIVE_TAIL_FILE makes the
+// server follow a local file as well.
+export function attachLiveTail(server: Server, tailPath = process.env.LIVE_TAIL_FILE): LiveSession {
+  const session = createLiveSession();
+  const sources: LiveSource[] = ["feed"];
+  const wss = new WebSocketServer({ noServer: true });
+
+  if (tailPath) {
+    sources.push("file");
+    let lastError: string | undefined;
+    const input = session.openInput();
+    tailFile(tailPath, input.write, (error) => {
+      // Polling repeats the same failure until the file shows up.
+      if (error.message === lastError) return;
+      lastError = error.message;
+      log(`cannot read ${tailPath}: ${error.message}`, "live");
+    });
+    log(`tailing ${tailPath}`, "live");
+  }
+
+  wss.on("connection", (socket: WebSocket, req: IncomingMessage) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+
+    if (pathname === FEED_PATH) {
+      const input = session.openInput();
+      let open = true;
+      const close = () => {
+        if (!open) return;
+        open = false;
+        input.close();
+      };
+      socket.on("message", (data) => {
+        if (open) input.write(rawDataToBytes(data));
+      });
+      socket.on("close", close);
+      // A malformed frame, such as text that is not UTF-8, ends this feed only.
+      socket.on("error", (error) => {
+        log(`feed closed: ${error.message}`, "live");
+        close();
+        socket.terminate();
+      });
+      return;
+    }
+
+    send(socket, { type: "snapshot", sources, events: session.snapshot() });
+    const unsubscribe = session.subscribe((message) => send(socket, message));
+    socket.on("close", unsubscribe);
+    socket.on("error", (error) => {
+      log(`viewer closed: ${error.message}`, "live");
+      unsubscribe();
+      socket.terminate();
+    });
+    socket.on("message", () => send(socket, { type: "error", message: `Send log text to ${FEED_PATH}` }));
+  });
+
+  // Other upgrades, such as Vite's HMR socket in development, are left alone.
+  server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== VIEWER_PATH && pathname !== FEED_PATH) return;
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+  });
+
+  return session;
+}
@@ -0,0 +1,38 @@
+import Anthropic from "@anthropic-ai/sdk";
+import { CLEANER_SYSTEM_PROMPT, type CleanOptions, type LogCleanerProvider } from "./types";
+
+const MAX_OUTPUT_TOKENS = 8192;
+
+export class AnthropicProvider implements LogCleanerProvider {
+  readonly name = "anthropic" as const;
+  readonly defaultModel: string;
+  readonly maxInputChars: number;
+  private client: Anthropic;
+
+  constructor({ apiKey, model, maxInputChars }: { apiKey: string; model: string; maxInputChars: number }) {
+    this.defaultModel = model;
+    this.maxInputChars = maxInputChars;
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async clean(log: string, options: CleanOptions = {}): Promise<string> {
+    const body = {
+      model: options.model ?? this.defaultModel,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      system: CLEANER_SYSTEM_PROMPT,
+      messages: [{ role: "user" as const, content: log }],
+      temperature: 0.0,
+    };
+
+    if (options.onDelta) {
+      const stream = this.client.messages.stream(body, { signal: options.signal });
+      stream.on("text", options.onDelta);
+      return stream.finalText();
+    }
+
+    const response = await this.client.messages.create(body, { signal: options.signal });
+    return response.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+  }
+}
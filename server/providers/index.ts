@@ -0,0 +1,99 @@
+import { providerNameSchema, type ProviderName, type ProviderInfo } from "@shared/schema";
+import { AnthropicProvider } from "./anthropic";
+import { OpenAIProvider } from "./openai";
+import { RulesProvider } from "./rules";
+import { ProviderUnavailableError, type LogCleanerProvider } from "./types";
+
+export { ProviderUnavailableError, type CleanOptions, type LogCleanerProvider } from "./types";
+
+const PROVIDER_NAMES = providerNameSchema.options;
+
+// Roughly 6k tokens, which leaves room for the cleaned output in the context
+// window of even small local models.
+const MAX_INPUT_CHARS = Number(process.env.CHUNK_MAX_CHARS) || 24_000;
+
+function createProvider(name: ProviderName): LogCleanerProvider {
+  const env = process.env;
+
+  switch (name) {
+    case "openai":
+      if (!env.OPENAI_API_KEY) {
+        throw new ProviderUnavailableError(name, "OPENAI_API_KEY is not set");
+      }
+      return new OpenAIProvider({
+        name,
+        apiKey: env.OPENAI_API_KEY,
+        // the newest OpenAI model is "gpt-4o-mini" which was released May 13, 2024
+        model: env.OPENAI_MODEL ?? "gpt-4o-mini",
+        maxInputChars: MAX_INPUT_CHARS,
+      });
+    case "openai-compatible":
+      if (!env.OPENAI_COMPATIBLE_BASE_URL) {
+        throw new ProviderUnavailableError(name, "OPENAI_COMPATIBLE_BASE_URL is not set");
+      }
+      if (!env.OPENAI_COMPATIBLE_MODEL) {
+        throw new ProviderUnavailableError(name, "OPENAI_COMPATIBLE_MODEL is not set");
+      }
+      return new OpenAIProvider({
+        name,
+        // Local servers generally accept any key, but the SDK requires one.
+        apiKey: env.OPENAI_COMPATIBLE_API_KEY ?? "not-needed",
+        baseURL: env.OPENAI_COMPATIBLE_BASE_URL,
+        model: env.OPENAI_COMPATIBLE_MODEL,
+        maxInputChars: MAX_INPUT_CHARS,
+      });
+    case "anthropic":
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new ProviderUnavailableError(name, "ANTHROPIC_API_KEY is not set");
+      }
+      return new AnthropicProvider({
+        apiKey: env.ANTHROPIC_API_KEY,
+        model: env.ANTHROPIC_MODEL ?? "claude-3-5-haiku-latest",
+        maxInputChars: MAX_INPUT_CHARS,
+      });
+    case "rules":
+      return new RulesProvider();
+  }
+}
+
+const providers = new Map<ProviderName, LogCleanerProvider>();
+
+export function getProvider(name: ProviderName = defaultProviderName()): LogCleanerProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+export function defaultProviderName(): ProviderName {
+  const configured = process.env.LOG_CLEANER_PROVIDER as ProviderName | undefined;
+
+  if (configured) {
+    if (!PROVIDER_NAMES.includes(configured)) {
+      throw new Error(
+        `Unknown LOG_CLEANER_PROVIDER "${configured}", expected one of: ${PROVIDER_NAMES.join(", ")}`,
+      );
+    }
+    return configured;
+  }
+
+  if (process.env.OPENAI_API_KEY) return "openai";
+  if (process.env.ANTHROPIC_API_KEY) return "anthropic";
+  return "rules";
+}
+
+export function listProviders(): ProviderInfo[] {
+  const defaultName = defaultProviderName();
+
+  return PROVIDER_NAMES.map((name) => {
+    try {
+      const provider = getProvider(name);
+      return { name, model: provider.defaultModel, available: true, default: name === defaultName };
+    } catch (error) {
+      if (!(error instanceof ProviderUnavailableError)) throw error;
+      return { name, model: null, available: false, default: name === defaultName };
+    }
+  });
+}
@@ -0,0 +1,57 @@
+import OpenAI from "openai";
+import type { ProviderName } from "@shared/schema";
+import { CLEANER_SYSTEM_PROMPT, type CleanOptions, type LogCleanerProvider } from "./types";
+
+interface OpenAIProviderConfig {
+  name: ProviderName;
+  apiKey: string;
+  model: string;
+  maxInputChars: number;
+  baseURL?: string;
+}
+
+// Also used for OpenAI-compatible servers (Ollama, llama.cpp, vLLM), which
+// only differ in base URL and usually ignore the API key.
+export class OpenAIProvider implements LogCleanerProvider {
+  readonly name: ProviderName;
+  readonly defaultModel: string;
+  readonly maxInputChars: number;
+  private client: OpenAI;
+
+  constructor({ name, apiKey, model, maxInputChars, baseURL }: OpenAIProviderConfig) {
+    this.name = name;
+    this.defaultModel = model;
+    this.maxInputChars = maxInputChars;
+    this.client = new OpenAI({ apiKey, baseURL });
+  }
+
+  async clean(log: string, options: CleanOptions = {}): Promise<string> {
+    const body = {
+      model: options.model ?? this.defaultModel,
+      messages: [
+        { role: "system" as const, content: CLEANER_SYSTEM_PROMPT },
+        { role: "user" as const, content: log },
+      ],
+      temperature: 0.0,
+    };
+
+    if (!options.onDelta) {
+      const response = await this.client.chat.completions.create(body, { signal: options.signal });
+      return response.choices[0].message.content ?? "";
+    }
+
+    const stream = await this.client.chat.completions.create(
+      { ...body, stream: true },
+      { signal: options.signal },
+    );
+    let cleaned = "";
+    for await (const part of stream) {
+      const delta = part.choices[0]?.delta?.content;
+      if (delta) {
+        cleaned += delta;
+        options.onDelta(delta);
+      }
+    }
+    return cleaned;
+  }
+}
@@ -0,0 +1,13 @@
+import type { CleanOptions, LogCleanerProvider } from "./types";
+
+// Makes no network calls, so the output only depends on the input log. The
+// rules themselves are applied while the log is prepared (see prepareLog in
+// shared/pipeline.ts), so there is nothing left to do here.
+export class RulesProvider implements LogCleanerProvider {
+  readonly name = "rules" as const;
+  readonly defaultModel = "rules";
+
+  async clean(log: string, _options?: CleanOptions): Promise<string> {
+    return log;
+  }
+}
@@ -0,0 +1,28 @@
+import type { ProviderName } from "@shared/schema";
+
+export const CLEANER_SYSTEM_PROMPT =
+  "You are an assistant that removes non-critical error messages, duplicates, and irrelevant content from error logs. Return only the cleaned log content without any additional commentary.";
+
+export interface CleanOptions {
+  model?: string;
+  signal?: AbortSignal;
+  // When set, the provider streams its output and reports each piece of
+  // text as it arrives. The resolved value is still the full cleaned log.
+  onDelta?: (text: string) => void;
+}
+
+export interface LogCleanerProvider {
+  readonly name: ProviderName;
+  readonly defaultModel: string;
+  // Longest input the provider should be sent in one call; larger logs are
+  // cleaned in chunks. Undefined means there is no limit.
+  readonly maxInputChars?: number;
+  clean(log: string, options?: CleanOptions): Promise<string>;
+}
+
+export class ProviderUnavailableError extends Error {
+  constructor(name: ProviderName, reason: string) {
+    super(`Provider "${name}" is not available: ${reason}`);
+    this.name = "ProviderUnavailableError";
+  }
+}
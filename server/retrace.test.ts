@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { InvalidMappingError, parseProguardMapping, retraceLog } from "./retrace";
+
+const mapping = parseProguardMapping(`# compiler: R8
+com.example.app.MainActivity -> a.b.c:
+# {"id":"sourceFile","fileName":"MainActivity.kt"}
+    void onCreate(android.os.Bundle) -> a
+    1:1:void helper():20:20 -> b
+    1:1:void onClick(android.view.View):42 -> b
+com.example.app.CrashException -> a.b.d:
+`);
+
+describe("retraceLog", () => {
+  it("restores class and method names, expanding inlined frames", () => {
+    const log = [
+      "a.b.d: boom",
+      "\tat a.b.c.b(Unknown Source:1)",
+      "\tat a.b.c.a(SourceFile:7)",
+      "\tat java.lang.Thread.run(Thread.java:1)",
+    ].join("\n");
+
+    expect(retraceLog(log, mapping)).toEqual({
+      text: [
+        "com.example.app.CrashException: boom",
+        "\tat com.example.app.MainActivity.helper(MainActivity.kt:20)",
+        "\tat com.example.app.MainActivity.onClick(MainActivity.kt:42)",
+        "\tat com.example.app.MainActivity.onCreate(MainActivity.kt:7)",
+        "\tat java.lang.Thread.run(Thread.java:1)",
+      ].join("\n"),
+      retracedFrames: 2,
+    });
+  });
+
+  it("leaves frames of unmapped classes unchanged", () => {
+    const log = "\tat java.lang.Thread.run(Thread.java:1)";
+    expect(retraceLog(log, mapping)).toEqual({ text: log, retracedFrames: 0 });
+  });
+});
+
+describe("parseProguardMapping", () => {
+  it("rejects content without class entries", () => {
+    expect(() => parseProguardMapping("garbage")).toThrow(InvalidMappingError);
+  });
+});
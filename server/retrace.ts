@@ -0,0 +1,164 @@
+export class InvalidMappingError extends Error {
+  constructor(reason: string) {
+    super(`The ProGuard mapping could not be read: ${reason}`);
+    this.name = "InvalidMappingError";
+  }
+}
+
+interface MemberMapping {
+  // Range of obfuscated line numbers this entry covers, when known.
+  startLine?: number;
+  endLine?: number;
+  // Qualified with a class name when R8 inlined it from another class.
+  originalName: string;
+  originalStartLine?: number;
+  originalEndLine?: number;
+}
+
+interface ClassMapping {
+  originalName: string;
+  sourceFile?: string;
+  methods: Map<string, MemberMapping[]>;
+}
+
+export interface RetraceMapping {
+  classes: Map<string, ClassMapping>;
+}
+
+export interface RetraceResult {
+  text: string;
+  // Frames whose class was found in the mapping.
+  retracedFrames: number;
+}
+
+// "com.example.Foo -> a.b:"
+const CLASS_LINE = /^(\S+) -> (\S+):$/;
+// "    1:5:void method(int):10:14 -> a" — fields have no parameter list and are skipped.
+const METHOD_LINE = /^\s+(?:(\d+):(\d+):)?\S+ ([^\s(]+)\([^)]*\)(?::(\d+)(?::(\d+))?)? -> (\S+)$/;
+// R8 metadata: # {"id":"sourceFile","fileName":"Foo.kt"}
+const SOURCE_FILE = /^\s*#\s*(\{.*"id"\s*:\s*"sourceFile".*\})\s*$/;
+
+// "    at a.b.c(Unknown Source:12)", "at a.b.c(SourceFile:12)" or "at a.b.c(Unknown Source)"
+const JVM_FRAME = /^(\s*at\s+)([\w$.]+)\.([\w$<>]+)\(([^:)]*)(?::(\d+))?\)\s*$/;
+
+export function parseProguardMapping(content: string): RetraceMapping {
+  const classes = new Map<string, ClassMapping>();
+  let current: ClassMapping | undefined;
+
+  for (const line of content.split(/\r?\n/)) {
+    const classMatch = line.match(CLASS_LINE);
+    if (classMatch) {
+      current = { originalName: classMatch[1], methods: new Map() };
+      classes.set(classMatch[2], current);
+      continue;
+    }
+    if (!current) continue;
+
+    const sourceFile = line.match(SOURCE_FILE);
+    if (sourceFile) {
+      try {
+        current.sourceFile = JSON.parse(sourceFile[1]).fileName;
+      } catch {
+        // Malformed metadata only costs us the file name.
+      }
+      continue;
+    }
+
+    const method = line.match(METHOD_LINE);
+    if (method) {
+      const [, start, end, originalName, originalStart, originalEnd, obfuscated] = method;
+      const toNumber = (value: string | undefined) => (value === undefined ? undefined : Number(value));
+      const entries = current.methods.get(obfuscated) ?? [];
+      entries.push({
+        startLine: toNumber(start),
+        endLine: toNumber(end),
+        originalName,
+        originalStartLine: toNumber(originalStart),
+        originalEndLine: toNumber(originalEnd),
+      });
+      current.methods.set(obfuscated, entries);
+    }
+  }
+
+  if (classes.size === 0) {
+    throw new InvalidMappingError('no "original -> obfuscated:" class entries found');
+  }
+  return { classes };
+}
+
+function defaultSourceFile(className: string): string {
+  const simpleName = className.split(".").pop() ?? className;
+  return `${simpleName.split("$")[0]}.java`;
+}
+
+function originalLine(entry: MemberMapping, line: number): number {
+  if (entry.originalStartLine === undefined) return line;
+  if (entry.startLine === undefined || entry.originalEndLine === undefined) return entry.originalStartLine;
+  // Ranges of equal length map line by line; otherwise only the start is known.
+  return entry.originalEndLine - entry.originalStartLine === (entry.endLine ?? 0) - entry.startLine
+    ? entry.originalStartLine + (line - entry.startLine)
+    : entry.originalStartLine;
+}
+
+function retraceFrame(mapping: RetraceMapping, className: string, method: string, line?: number): string[] | undefined {
+  const classMapping = mapping.classes.get(className);
+  if (!classMapping) return undefined;
+
+  const entries = classMapping.methods.get(method) ?? [];
+  const matching =
+    line === undefined
+      ? entries
+      : entries.filter((entry) => entry.startLine === undefined || (line >= entry.startLine && line <= (entry.endLine ?? entry.startLine)));
+
+  const frame = (qualifiedName: string, frameLine?: number) => {
+    const dot = qualifiedName.lastIndexOf(".");
+    // Methods inlined from another class are written "com.example.Other.method".
+    const owner = dot === -1 ? classMapping.originalName : qualifiedName.slice(0, dot);
+    const name = dot === -1 ? qualifiedName : qualifiedName.slice(dot + 1);
+    const file = owner === classMapping.originalName && classMapping.sourceFile
+      ? classMapping.sourceFile
+      : defaultSourceFile(owner);
+    return `${owner}.${name}(${file}${frameLine === undefined ? "" : `:${frameLine}`})`;
+  };
+
+  // With a line number, the matching entries are one inlining chain,
+  // innermost first. Without one, several methods may share the obfuscated
+  // name and all candidates are listed.
+  if (line !== undefined && matching.length > 0 && matching.some((entry) => entry.startLine !== undefined)) {
+    return matching.map((entry) => frame(entry.originalName, originalLine(entry, line)));
+  }
+
+  const names = Array.from(new Set(matching.map((entry) => entry.originalName)));
+  if (names.length === 0) return [frame(method, line)];
+  if (names.length === 1) return [frame(names[0], line)];
+  return [frame(names.join("|"), line)];
+}
+
+// De-obfuscates Java and Kotlin stack frames. Inlined methods expand into one
+// frame each, so the result can have more lines than the input.
+export function retraceLog(log: string, mapping: RetraceMapping): RetraceResult {
+  let retracedFrames = 0;
+  const lines: string[] = [];
+
+  for (const line of log.split("\n")) {
+    const match = line.match(JVM_FRAME);
+    const frames = match && retraceFrame(mapping, match[2], match[3], match[5] === undefined ? undefined : Number(match[5]));
+    if (!match || !frames) {
+      lines.push(retraceClassNames(line, mapping));
+      continue;
+    }
+    retracedFrames++;
+    for (const frame of frames) lines.push(`${match[1]}${frame}`);
+  }
+
+  return { text: lines.join("\n"), retracedFrames };
+}
+
+// Exception headers such as "a.b.c: boom" or "Caused by: a.b.c" name
+// obfuscated classes outside any frame.
+function retraceClassNames(line: string, mapping: RetraceMapping): string {
+  return line.replace(/(^|Caused by: |Suppressed: )([\w$]+(?:\.[\w$]+)+)(?=:|\s*$)/, (whole, prefix, name) => {
+    const classMapping = mapping.classes.get(name);
+    return classMapping ? `${prefix}${classMapping.originalName}` : whole;
+  });
+}
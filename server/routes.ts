@@ -1,44 +1,329 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { cleanLogRequestSchema } from "@shared/schema";
+import {
+  cleanLogRequestSchema,
+  listLogsQuerySchema,
+  logIdParamSchema,
+  projectParamSchema,
+  streamDedupQuerySchema,
+  uploadMappingSchema,
+  type ChunkStatus,
+  type CleanLogEvent,
+  type CleanLogResult,
+  type ProguardMappingInfo,
+} from "@shared/schema";
+import { buildCleanReport, mapRange, prepareLog } from "@shared/pipeline";
+import { redactLog } from "@shared/redaction";
+import { streamDedup } from "@shared/streaming";
 import { ZodError } from "zod";
-import OpenAI from "openai";
+import { getProvider, listProviders, ProviderUnavailableError } from "./providers";
+import { cleanInChunks } from "./chunking";
+import { openEventStream, type EventStream } from "./sse";
+import { InvalidSourceMapError, symbolicateLog } from "./symbolication";
+import { InvalidMappingError, parseProguardMapping, retraceLog, type RetraceMapping } from "./retrace";
 
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// Parsed mappings are kept until the project's stored mapping changes.
+const parsedMappings = new Map<string, { updatedAt: number; mapping: RetraceMapping }>();
+
+// An uploaded mapping is validated and, for a project, stored for later
+// requests; otherwise the project's stored mapping is used, if it has one.
+async function resolveProguardMapping(project?: string, upload?: string): Promise<RetraceMapping | undefined> {
+  if (upload !== undefined) {
+    const mapping = parseProguardMapping(upload);
+    if (project) {
+      const saved = await storage.saveProguardMapping(project, upload);
+      parsedMappings.set(project, { updatedAt: saved.updatedAt.getTime(), mapping });
+    }
+    return mapping;
+  }
+
+  if (!project) return undefined;
+  const stored = await storage.getProguardMapping(project);
+  if (!stored) return undefined;
+
+  const cached = parsedMappings.get(project);
+  if (cached && cached.updatedAt === stored.updatedAt.getTime()) return cached.mapping;
+  const mapping = parseProguardMapping(stored.content);
+  parsedMappings.set(project, { updatedAt: stored.updatedAt.getTime(), mapping });
+  return mapping;
+}
 
 export function registerRoutes(app: Express): Server {
   app.post("/api/clean-log", async (req, res) => {
+    // Aborts the upstream model calls when the client cancels or disconnects.
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) controller.abort();
+    });
+
+    const startedAt = Date.now();
+    let events: EventStream<CleanLogEvent> | undefined;
     try {
-      const { log } = cleanLogRequestSchema.parse(req.body);
-
-      const response = await openai.chat.completions.create({
-        // the newest OpenAI model is "gpt-4o-mini" which was released May 13, 2024
-        model: "gpt-4o-mini",
-        messages: [
-          {
-            role: "system",
-            content: "You are an assistant that removes non-critical error messages, duplicates, and irrelevant content from error logs. Return only the cleaned log content without any additional commentary.",
-          },
-          { role: "user", content: log }
-        ],
-        temperature: 0.0,
+      const {
+        log: rawLog,
+        mode,
+        format,
+        normalizationRules,
+        similarityThreshold,
+        minLevel,
+        redact,
+        sourceMaps,
+        project,
+        proguardMapping,
+        provider: providerName,
+        model,
+      } = cleanLogRequestSchema.parse(req.body);
+      const provider = getProvider(mode === "rules" ? "rules" : providerName);
+      const fallbackReason = mode === "ai" && !providerName && provider.name === "rules"
+        ? "No AI provider is configured on the server, so the log was cleaned with rules only"
+        : undefined;
+      // Redaction keeps every line in place, so line numbers in the report match the raw log.
+      const { text: redactedLog, redactions } = redact ? redactLog(rawLog) : { text: rawLog, redactions: [] };
+      const { text: symbolicatedLog, resolvedFrames } = symbolicateLog(redactedLog, sourceMaps);
+      const retraceMapping = await resolveProguardMapping(project, proguardMapping);
+      const { text: log, retracedFrames } = retraceMapping
+        ? retraceLog(symbolicatedLog, retraceMapping)
+        : { text: symbolicatedLog, retracedFrames: 0 };
+      const prepared = prepareLog(log, {
+        stripNoise: provider.name === "rules",
+        format,
+        normalizationRules,
+        similarityThreshold,
+        minLevel,
+      });
+      // Chunks are split from the prepared log; report them in original line numbers.
+      const toOriginalLines = (chunk: ChunkStatus): ChunkStatus => ({
+        ...chunk,
+        ...mapRange(chunk, prepared.lineMap),
       });
 
-      const cleanedLog = response.choices[0].message.content;
+      const stream = req.accepts(["json", "text/event-stream"]) === "text/event-stream"
+        ? openEventStream<CleanLogEvent>(res)
+        : undefined;
+      events = stream;
+
+      const { cleaned: cleanedLog, chunks } = await cleanInChunks(provider, prepared.text, {
+        model,
+        signal: controller.signal,
+        onStart: stream && ((totalChunks) => stream.send("start", { totalChunks })),
+        onChunkDelta: stream && ((index, text) => stream.send("delta", { index, text })),
+        onChunkDone: stream && ((chunk, cleaned) => stream.send("chunk", { ...toOriginalLines(chunk), cleaned })),
+      });
 
       const savedLog = await storage.createLog({
         originalContent: log,
         cleanedContent: cleanedLog
       });
 
-      res.json({ cleaned: cleanedLog });
+      const result: CleanLogResult = {
+        id: savedLog.id,
+        input: log,
+        cleaned: cleanedLog,
+        deduplicated: prepared.text,
+        ...buildCleanReport(prepared, cleanedLog),
+        chunks: chunks.map(toOriginalLines),
+        redactions: redactions.map(({ placeholder, rule }) => ({ placeholder, rule })),
+        meta: {
+          mode: provider.name === "rules" ? "rules" : "ai",
+          format: prepared.format,
+          provider: provider.name,
+          model: model ?? provider.defaultModel,
+          symbolicatedFrames: resolvedFrames,
+          retracedFrames,
+          durationMs: Date.now() - startedAt,
+          fallbackReason,
+        },
+      };
+      if (stream) {
+        stream.send("done", result);
+        stream.close();
+      } else {
+        res.json(result);
+      }
     } catch (error) {
+      if (controller.signal.aborted) return;
+
+      let status = 500;
+      let message = "Error processing log";
       if (error instanceof ZodError) {
-        res.status(400).json({ error: error.errors[0].message });
+        status = 400;
+        message = error.errors[0].message;
+      } else if (
+        error instanceof ProviderUnavailableError ||
+        error instanceof InvalidSourceMapError ||
+        error instanceof InvalidMappingError
+      ) {
+        status = 400;
+        message = error.message;
       } else {
         console.error("Error cleaning log:", error);
-        res.status(500).json({ error: "Error processing log" });
+      }
+
+      if (events) {
+        events.send("error", { error: message });
+        events.close();
+      } else {
+        res.status(status).json({ error: message });
+      }
+    }
+  });
+
+  app.get("/api/providers", (_req, res) => {
+    res.json({ providers: listProviders() });
+  });
+
+  // Deduplicates a text/plain body while it is still arriving and streams the
+  // result back, so a log of any length passes through in bounded memory.
+  app.post("/api/stream-dedup", async (req, res) => {
+    let query;
+    try {
+      query = streamDedupQuerySchema.parse(req.query);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0].message });
+        return;
+      }
+      throw error;
+    }
+    if (!req.is("text/plain")) {
+      res.status(415).json({ error: "Send the log as text/plain" });
+      return;
+    }
+
+    res.status(200).type("text/plain");
+    try {
+      await streamDedup(
+        req,
+        {
+          format: query.format,
+          minLevel: query.minLevel,
+          windowMs: query.window * 1000,
+          maxFingerprints: query.maxFingerprints,
+        },
+        (text) => res.write(`${text}\n`),
+      );
+      res.end();
+    } catch (error) {
+      console.error("Error streaming log:", error);
+      res.destroy();
+    }
+  });
+
+  app.get("/api/logs", async (req, res) => {
+    try {
+      const query = listLogsQuerySchema.parse(req.query);
+      res.json(await storage.listLogs(query));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0].message });
+      } else {
+        console.error("Error listing logs:", error);
+        res.status(500).json({ error: "Error listing logs" });
+      }
+    }
+  });
+
+  app.get("/api/logs/:id", async (req, res) => {
+    try {
+      const { id } = logIdParamSchema.parse(req.params);
+      const log = await storage.getLog(id);
+
+      if (!log) {
+        res.status(404).json({ error: "Log not found" });
+        return;
+      }
+
+      res.json(log);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0].message });
+      } else {
+        console.error("Error fetching log:", error);
+        res.status(500).json({ error: "Error fetching log" });
+      }
+    }
+  });
+
+  app.delete("/api/logs/:id", async (req, res) => {
+    try {
+      const { id } = logIdParamSchema.parse(req.params);
+
+      if (!(await storage.deleteLog(id))) {
+        res.status(404).json({ error: "Log not found" });
+        return;
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0].message });
+      } else {
+        console.error("Error deleting log:", error);
+        res.status(500).json({ error: "Error deleting log" });
+      }
+    }
+  });
+
+  app.get("/api/projects/:project/proguard-mapping", async (req, res) => {
+    try {
+      const { project } = projectParamSchema.parse(req.params);
+      const mapping = await storage.getProguardMapping(project);
+
+      if (!mapping) {
+        res.status(404).json({ error: "No mapping stored for this project" });
+        return;
+      }
+
+      // The mapping itself can be megabytes; only its metadata is returned.
+      const info: ProguardMappingInfo = { project: mapping.project, size: mapping.size, updatedAt: mapping.updatedAt };
+      res.json(info);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0].message });
+      } else {
+        console.error("Error fetching mapping:", error);
+        res.status(500).json({ error: "Error fetching mapping" });
+      }
+    }
+  });
+
+  app.put("/api/projects/:project/proguard-mapping", async (req, res) => {
+    try {
+      const { project } = projectParamSchema.parse(req.params);
+      const { mapping } = uploadMappingSchema.parse(req.body);
+      parseProguardMapping(mapping);
+
+      res.json(await storage.saveProguardMapping(project, mapping));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0].message });
+      } else if (error instanceof InvalidMappingError) {
+        res.status(400).json({ error: error.message });
+      } else {
+        console.error("Error saving mapping:", error);
+        res.status(500).json({ error: "Error saving mapping" });
+      }
+    }
+  });
+
+  app.delete("/api/projects/:project/proguard-mapping", async (req, res) => {
+    try {
+      const { project } = projectParamSchema.parse(req.params);
+
+      if (!(await storage.deleteProguardMapping(project))) {
+        res.status(404).json({ error: "No mapping stored for this project" });
+        return;
+      }
+
+      parsedMappings.delete(project);
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof ZodError) {
+        res.status(400).json({ error: error.errors[0].message });
+      } else {
+        console.error("Error deleting mapping:", error);
+        res.status(500).json({ error: "Error deleting mapping" });
       }
     }
   });
@@ -0,0 +1,28 @@
+import type { Response } from "express";
+
+// A named event and its payload, e.g. a member of a zod discriminated union on "event".
+export interface ServerEvent {
+  event: string;
+  data: unknown;
+}
+
+export interface EventStream<E extends ServerEvent = ServerEvent> {
+  send<K extends E["event"]>(event: K, data: Extract<E, { event: K }>["data"]): void;
+  close(): void;
+}
+
+export function openEventStream<E extends ServerEvent = ServerEvent>(res: Response): EventStream<E> {
+  res.status(200).set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  res.flushHeaders();
+
+  return {
+    send: (event, data) => {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close: () => res.end(),
+  };
+}
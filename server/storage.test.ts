@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { connectPglite } from "./db";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+
+const insert = (originalContent: string) => ({ originalContent, cleanedContent: originalContent.toUpperCase() });
+
+describe.each([
+  ["DbStorage on in-memory PGlite", () => new DbStorage(connectPglite("memory://"))],
+  ["MemStorage", () => new MemStorage()],
+])("%s", (_name, create: () => IStorage) => {
+  let storage: IStorage;
+
+  beforeEach(() => {
+    storage = create();
+  });
+
+  it("creates a log with its sizes and reads it back", async () => {
+    const log = await storage.createLog({ originalContent: "héllo\nworld", cleanedContent: "héllo" });
+    expect(log).toMatchObject({ originalContent: "héllo\nworld", originalSize: 12, cleanedSize: 6 });
+    expect(log.createdAt).toBeInstanceOf(Date);
+
+    expect(await storage.getLog(log.id)).toEqual(log);
+    expect(await storage.getLog(log.id + 100)).toBeUndefined();
+  });
+
+  it("lists logs in either order, with paging and the total", async () => {
+    const created = [];
+    for (const content of ["\n  first log line\nmore", "second", "third", "fourth"]) {
+      created.push(await storage.createLog(insert(content)));
+    }
+    const ids = created.map((log) => log.id);
+
+    const page = await storage.listLogs({ limit: 2, offset: 1, order: "desc" });
+    expect(page).toMatchObject({ total: 4, limit: 2, offset: 1 });
+    expect(page.logs.map((log) => log.id)).toEqual([ids[2], ids[1]]);
+    expect(page.logs[0]).not.toHaveProperty("originalContent");
+
+    const ascending = await storage.listLogs({ limit: 10, offset: 0, order: "asc" });
+    expect(ascending.logs.map((log) => log.id)).toEqual(ids);
+    expect(ascending.logs[0].preview).toBe("first log line");
+
+    expect((await storage.listLogs({ limit: 10, offset: 4, order: "desc" })).logs).toEqual([]);
+  });
+
+  it("deletes a log once", async () => {
+    const log = await storage.createLog(insert("doomed"));
+    expect(await storage.deleteLog(log.id)).toBe(true);
+    expect(await storage.deleteLog(log.id)).toBe(false);
+    expect(await storage.getLog(log.id)).toBeUndefined();
+    expect((await storage.listLogs({ limit: 10, offset: 0, order: "desc" })).total).toBe(0);
+  });
+
+  it("saves, replaces and deletes ProGuard mappings per project", async () => {
+    const info = await storage.saveProguardMapping("app", "a.b.C -> x:\n");
+    expect(info).toMatchObject({ project: "app", size: 12 });
+    expect(info).not.toHaveProperty("content");
+
+    await storage.saveProguardMapping("app", "a.b.D -> y:\n");
+    expect(await storage.getProguardMapping("app")).toMatchObject({ project: "app", content: "a.b.D -> y:\n" });
+    expect(await storage.getProguardMapping("other")).toBeUndefined();
+
+    expect(await storage.deleteProguardMapping("app")).toBe(true);
+    expect(await storage.deleteProguardMapping("app")).toBe(false);
+    expect(await storage.getProguardMapping("app")).toBeUndefined();
+  });
+  // Starting PGlite and applying the migrations takes a few seconds.
+}, 30_000);
@@ -1,22 +1,68 @@
-import { logs, type Log, type InsertLog } from "@shared/schema";
+import { asc, count, desc, eq, sql } from "drizzle-orm";
+import {
+  logs,
+  proguardMappings,
+  type Log,
+  type InsertLog,
+  type ListLogsQuery,
+  type LogPage,
+  type LogSummary,
+  type ProguardMapping,
+  type ProguardMappingInfo,
+} from "@shared/schema";
+import {
+  connectPglite,
+  connectPostgres,
+  resolveStorageDriver,
+  type Database,
+  type StorageDriver,
+} from "./db";
 
 export interface IStorage {
   createLog(log: InsertLog): Promise<Log>;
   getLog(id: number): Promise<Log | undefined>;
+  listLogs(query: ListLogsQuery): Promise<LogPage>;
+  deleteLog(id: number): Promise<boolean>;
+  saveProguardMapping(project: string, content: string): Promise<ProguardMappingInfo>;
+  getProguardMapping(project: string): Promise<ProguardMapping | undefined>;
+  deleteProguardMapping(project: string): Promise<boolean>;
+}
+
+const PREVIEW_LENGTH = 120;
+
+function previewOf(content: string): string {
+  const firstLine = content.split("\n").find((line) => line.trim() !== "") ?? "";
+  return firstLine.trim().slice(0, PREVIEW_LENGTH);
+}
+
+function sizeOf(content: string): number {
+  return Buffer.byteLength(content, "utf8");
+}
+
+function mappingInfo({ content, ...info }: ProguardMapping): ProguardMappingInfo {
+  return info;
 }
 
 export class MemStorage implements IStorage {
   private logs: Map<number, Log>;
+  private mappings: Map<string, ProguardMapping>;
   private currentId: number;
 
   constructor() {
     this.logs = new Map();
+    this.mappings = new Map();
     this.currentId = 1;
   }
 
   async createLog(insertLog: InsertLog): Promise<Log> {
     const id = this.currentId++;
-    const log: Log = { id, ...insertLog };
+    const log: Log = {
+      id,
+      ...insertLog,
+      originalSize: sizeOf(insertLog.originalContent),
+      cleanedSize: sizeOf(insertLog.cleanedContent),
+      createdAt: new Date(),
+    };
     this.logs.set(id, log);
     return log;
   }
@@ -24,6 +70,138 @@ export class MemStorage implements IStorage {
   async getLog(id: number): Promise<Log | undefined> {
     return this.logs.get(id);
   }
+
+  async listLogs({ limit, offset, order }: ListLogsQuery): Promise<LogPage> {
+    // Ids are handed out in creation order, so they double as a stable
+    // tie-breaker for logs created within the same millisecond.
+    const sorted = Array.from(this.logs.values()).sort((a, b) => {
+      const diff = a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id;
+      return order === "asc" ? diff : -diff;
+    });
+
+    const page: LogSummary[] = sorted
+      .slice(offset, offset + limit)
+      .map(({ originalContent, cleanedContent, ...meta }) => ({
+        ...meta,
+        preview: previewOf(originalContent),
+      }));
+
+    return { logs: page, total: this.logs.size, limit, offset };
+  }
+
+  async deleteLog(id: number): Promise<boolean> {
+    return this.logs.delete(id);
+  }
+
+  async saveProguardMapping(project: string, content: string): Promise<ProguardMappingInfo> {
+    const mapping: ProguardMapping = { project, content, size: sizeOf(content), updatedAt: new Date() };
+    this.mappings.set(project, mapping);
+    return mappingInfo(mapping);
+  }
+
+  async getProguardMapping(project: string): Promise<ProguardMapping | undefined> {
+    return this.mappings.get(project);
+  }
+
+  async deleteProguardMapping(project: string): Promise<boolean> {
+    return this.mappings.delete(project);
+  }
+}
+
+export class DbStorage implements IStorage {
+  private db: Promise<Database>;
+
+  constructor(db: Database | Promise<Database>) {
+    this.db = Promise.resolve(db);
+  }
+
+  async createLog(insertLog: InsertLog): Promise<Log> {
+    const db = await this.db;
+    const [log] = await db
+      .insert(logs)
+      .values({
+        ...insertLog,
+        originalSize: sizeOf(insertLog.originalContent),
+        cleanedSize: sizeOf(insertLog.cleanedContent),
+      })
+      .returning();
+    return log;
+  }
+
+  async getLog(id: number): Promise<Log | undefined> {
+    const db = await this.db;
+    const [log] = await db.select().from(logs).where(eq(logs.id, id));
+    return log;
+  }
+
+  async listLogs({ limit, offset, order }: ListLogsQuery): Promise<LogPage> {
+    const db = await this.db;
+    const direction = order === "asc" ? asc : desc;
+
+    const rows = await db
+      .select({
+        id: logs.id,
+        originalSize: logs.originalSize,
+        cleanedSize: logs.cleanedSize,
+        createdAt: logs.createdAt,
+        head: sql<string>`left(${logs.originalContent}, 1000)`,
+      })
+      .from(logs)
+      .orderBy(direction(logs.createdAt), direction(logs.id))
+      .limit(limit)
+      .offset(offset);
+    const [{ total }] = await db.select({ total: count() }).from(logs);
+
+    return {
+      logs: rows.map(({ head, ...meta }) => ({ ...meta, preview: previewOf(head) })),
+      total,
+      limit,
+      offset,
+    };
+  }
+
+  async deleteLog(id: number): Promise<boolean> {
+    const db = await this.db;
+    const deleted = await db.delete(logs).where(eq(logs.id, id)).returning({ id: logs.id });
+    return deleted.length > 0;
+  }
+
+  async saveProguardMapping(project: string, content: string): Promise<ProguardMappingInfo> {
+    const db = await this.db;
+    const values = { content, size: sizeOf(content), updatedAt: new Date() };
+    const [mapping] = await db
+      .insert(proguardMappings)
+      .values({ project, ...values })
+      .onConflictDoUpdate({ target: proguardMappings.project, set: values })
+      .returning();
+    return mappingInfo(mapping);
+  }
+
+  async getProguardMapping(project: string): Promise<ProguardMapping | undefined> {
+    const db = await this.db;
+    const [mapping] = await db.select().from(proguardMappings).where(eq(proguardMappings.project, project));
+    return mapping;
+  }
+
+  async deleteProguardMapping(project: string): Promise<boolean> {
+    const db = await this.db;
+    const deleted = await db
+      .delete(proguardMappings)
+      .where(eq(proguardMappings.project, project))
+      .returning({ project: proguardMappings.project });
+    return deleted.length > 0;
+  }
+}
+
+export function createStorage(driver: StorageDriver = resolveStorageDriver()): IStorage {
+  switch (driver) {
+    case "postgres":
+      return new DbStorage(connectPostgres());
+    case "pglite":
+      return new DbStorage(connectPglite());
+    case "memory":
+      return new MemStorage();
+  }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
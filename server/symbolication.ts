@@ -0,0 +1,88 @@
+import { originalPositionFor, TraceMap } from "@jridgewell/trace-mapping";
+import type { SourceMapFile } from "@shared/schema";
+
+export class InvalidSourceMapError extends Error {
+  constructor(name: string, reason: string) {
+    super(`Source map "${name}" could not be read: ${reason}`);
+    this.name = "InvalidSourceMapError";
+  }
+}
+
+export interface SymbolicationResult {
+  text: string;
+  // Frames rewritten to their original position.
+  resolvedFrames: number;
+}
+
+// V8: "    at fn (https://host/main.3f9a.js:1:48213)" or "    at https://host/main.3f9a.js:1:48213"
+const V8_FRAME = /^(\s*at\s+)(?:(.*?) \()?([^\s()]+):(\d+):(\d+)\)?\s*$/;
+// Firefox and Safari: "fn@https://host/main.3f9a.js:1:48213"
+const GECKO_FRAME = /^(\s*)([^@\s]*)@(\S+):(\d+):(\d+)\s*$/;
+
+function basename(url: string): string {
+  return url.replace(/[?#].*$/, "").split("/").pop() ?? url;
+}
+
+// Maps are looked up by the file name of the bundle they describe: the
+// map's own "file" field, or the upload name without its ".map" suffix.
+function indexMaps(files: SourceMapFile[]): Map<string, TraceMap> {
+  const maps = new Map<string, TraceMap>();
+  for (const { name, content } of files) {
+    let map: TraceMap;
+    try {
+      map = new TraceMap(content);
+    } catch (error) {
+      throw new InvalidSourceMapError(name, error instanceof Error ? error.message : String(error));
+    }
+    if (map.file) maps.set(basename(map.file), map);
+    maps.set(basename(name).replace(/\.map$/, ""), map);
+  }
+  return maps;
+}
+
+// Rewrites minified JavaScript stack frames to the original source, line,
+// column and function name. Each frame stays on its own line, so line
+// numbers in the log are unchanged.
+export function symbolicateLog(log: string, files: SourceMapFile[]): SymbolicationResult {
+  if (files.length === 0) return { text: log, resolvedFrames: 0 };
+
+  const maps = indexMaps(files);
+  let resolvedFrames = 0;
+
+  const resolve = (url: string, line: string, column: string) => {
+    const map = maps.get(basename(url));
+    if (!map) return undefined;
+    // Stack traces count columns from 1, source maps from 0.
+    const position = originalPositionFor(map, { line: Number(line), column: Number(column) - 1 });
+    return position.source === null ? undefined : position;
+  };
+
+  const text = log
+    .split("\n")
+    .map((line) => {
+      const v8 = line.match(V8_FRAME);
+      if (v8) {
+        const [, prefix, fn, url, row, column] = v8;
+        const position = resolve(url, row, column);
+        if (!position) return line;
+        resolvedFrames++;
+        const location = `${position.source}:${position.line}:${position.column + 1}`;
+        const name = position.name ?? fn;
+        return name ? `${prefix}${name} (${location})` : `${prefix}${location}`;
+      }
+
+      const gecko = line.match(GECKO_FRAME);
+      if (gecko) {
+        const [, indent, fn, url, row, column] = gecko;
+        const position = resolve(url, row, column);
+        if (!position) return line;
+        resolvedFrames++;
+        return `${indent}${position.name ?? fn}@${position.source}:${position.line}:${position.column + 1}`;
+      }
+
+      return line;
+    })
+    .join("\n");
+
+  return { text, resolvedFrames };
+}
@@ -0,0 +1,55 @@
+import type { StackTraceLanguage } from "./stack-traces";
+
+export type LogSegment =
+  | { kind: "block"; text: string; startLine: number; endLine: number; language?: StackTraceLanguage }
+  | { kind: "blank"; line: number };
+
+export type BlockSplitter = (log: string) => LogSegment[];
+
+// Splits a log into runs of non-blank lines separated by blank lines.
+// Blank lines are kept as their own segments so the original spacing
+// can be reproduced when the log is rendered back out.
+export const splitBlankLineBlocks: BlockSplitter = (log) => {
+  const lines = log.split("\n");
+  const segments: LogSegment[] = [];
+  let currentBlock: string[] = [];
+  let blockStart = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const isBlank = line.trim() === "";
+
+    if (isBlank || i === lines.length - 1) {
+      if (!isBlank) {
+        if (currentBlock.length === 0) blockStart = i;
+        currentBlock.push(line);
+      }
+
+      if (currentBlock.length > 0) {
+        segments.push({
+          kind: "block",
+          text: currentBlock.join("\n"),
+          startLine: blockStart,
+          endLine: blockStart + currentBlock.length - 1,
+        });
+        currentBlock = [];
+      }
+      if (isBlank) {
+        segments.push({ kind: "blank", line: i });
+      }
+    } else {
+      if (currentBlock.length === 0) blockStart = i;
+      currentBlock.push(line);
+    }
+  }
+
+  return segments;
+};
+
+// Treats every non-blank line as its own block, for logs with one event per line.
+export const splitLineBlocks: BlockSplitter = (log) =>
+  log.split("\n").map((line, i): LogSegment =>
+    line.trim() === ""
+      ? { kind: "blank", line: i }
+      : { kind: "block", text: line, startLine: i, endLine: i },
+  );
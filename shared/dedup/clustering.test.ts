@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { createTemplateMiner, WILDCARD } from "./clustering";
+import { createDedupEngine, deduplicateLog } from "./engine";
+
+describe("createTemplateMiner", () => {
+  it("puts messages that differ in a few tokens under one template", () => {
+    const miner = createTemplateMiner(0.5);
+    const alice = miner.add("user alice logged in from web");
+    const bob = miner.add("user bob logged in from web");
+    const disk = miner.add("disk full");
+
+    expect(bob).toBe(alice);
+    expect(disk).not.toBe(alice);
+    expect(miner.template(alice)).toBe(`user ${WILDCARD} logged in from web`);
+    expect(miner.template(disk)).toBe("disk full");
+  });
+});
+
+describe("deduplicating by similarity", () => {
+  it("counts near-duplicates together and reports their template", () => {
+    const result = createDedupEngine({ similarityThreshold: 0.5 }).run(
+      "user alice logged in\nuser bob logged in\ndisk full",
+    );
+
+    expect(result.output).toBe("user alice logged in [x2]\ndisk full");
+    expect(result.groups.map(({ template, count }) => ({ template, count }))).toEqual([
+      { template: "user <*> logged in", count: 2 },
+      { template: "disk full", count: 1 },
+    ]);
+  });
+
+  it("only groups identical messages at a threshold of 1", () => {
+    const log = "user alice logged in\nuser bob logged in";
+    expect(deduplicateLog(log, { similarityThreshold: 1 })).toBe(log);
+  });
+});
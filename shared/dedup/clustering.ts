@@ -0,0 +1,65 @@
+export const WILDCARD = "<*>";
+
+export interface TemplateMiner {
+  // Assigns a fingerprint to the most similar template, or a new one, and
+  // returns the template's id.
+  add(fingerprint: string): string;
+  template(id: string): string;
+}
+
+interface Cluster {
+  id: string;
+  tokens: string[];
+}
+
+function tokenize(fingerprint: string): string[] {
+  return fingerprint.split(/\s+/).filter(Boolean);
+}
+
+// Share of positions where the template has the same literal token. Wildcards
+// never match, so a template does not absorb ever more unrelated messages.
+function similarity(template: string[], tokens: string[]): number {
+  let same = 0;
+  template.forEach((token, i) => {
+    if (token !== WILDCARD && token === tokens[i]) same++;
+  });
+  return same / template.length;
+}
+
+// A simplified Drain: fingerprints are only compared with templates of the
+// same token count, join the most similar one at or above the threshold,
+// and turn the positions where they differ into wildcards.
+export function createTemplateMiner(threshold: number): TemplateMiner {
+  const byLength = new Map<number, Cluster[]>();
+  const byId = new Map<string, Cluster>();
+
+  const add = (fingerprint: string): string => {
+    const tokens = tokenize(fingerprint);
+    const candidates = byLength.get(tokens.length) ?? [];
+
+    let best: Cluster | undefined;
+    let bestScore = -1;
+    for (const cluster of candidates) {
+      const score = tokens.length === 0 ? 1 : similarity(cluster.tokens, tokens);
+      if (score >= threshold && score > bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    }
+
+    if (best) {
+      best.tokens = best.tokens.map((token, i) => (token === tokens[i] ? token : WILDCARD));
+      return best.id;
+    }
+
+    const cluster = { id: `template-${byId.size + 1}`, tokens };
+    byLength.set(tokens.length, [...candidates, cluster]);
+    byId.set(cluster.id, cluster);
+    return cluster.id;
+  };
+
+  return {
+    add,
+    template: (id) => byId.get(id)?.tokens.join(" ") ?? "",
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { createDedupEngine, deduplicateLog } from "./engine";
+
+describe("deduplicateLog", () => {
+  it("annotates the first occurrence of a repeated block with [xN] and drops the rest", () => {
+    const log = "Error [abc] 1\nError [def] 2\n\nfoo\n\nError [abc] 1\nError [def] 3\n";
+    expect(deduplicateLog(log)).toBe("Error [abc] 1\nError [def] 2 [x2]\n\nfoo\n\n");
+  });
+
+  it("counts every repeat", () => {
+    expect(deduplicateLog("a\n\na\n\na")).toBe("a [x3]\n\n");
+  });
+
+  it("leaves blocks that occur once unchanged", () => {
+    expect(deduplicateLog("x\n\n\n\ny")).toBe("x\n\n\n\ny");
+  });
+
+  it("treats blocks that differ only in addresses and timestamps as repeats", () => {
+    const log = "Error at 0x7ff3a 2024-01-01T10:00:00Z\n\nError at 0x1bc2d 2024-02-03T11:00:00Z";
+    expect(deduplicateLog(log)).toBe("Error at 0x7ff3a 2024-01-01T10:00:00Z [x2]\n");
+  });
+
+  it("uses a custom count formatter", () => {
+    expect(deduplicateLog("a\n\na", { formatCount: (block, count) => `${count}x ${block}` })).toBe("2x a\n");
+  });
+});
+
+describe("createDedupEngine", () => {
+  it("reports groups with their occurrences and maps output lines to input lines", () => {
+    const result = createDedupEngine().run("a\n\nb\n\na");
+
+    expect(result.output).toBe("a [x2]\n\nb\n");
+    expect(result.groups).toEqual([
+      {
+        fingerprint: "a",
+        count: 2,
+        originalMessage: "a",
+        occurrences: [
+          { startLine: 0, endLine: 0 },
+          { startLine: 4, endLine: 4 },
+        ],
+      },
+      { fingerprint: "b", count: 1, originalMessage: "b", occurrences: [{ startLine: 2, endLine: 2 }] },
+    ]);
+    expect(result.lineMap).toEqual([0, 1, 2, 3]);
+  });
+
+  it("fingerprints blocks with the given strategy", () => {
+    const engine = createDedupEngine({ fingerprint: (block) => block.toLowerCase() });
+    expect(engine.deduplicate("Boom\n\nBOOM")).toBe("Boom [x2]\n");
+  });
+});
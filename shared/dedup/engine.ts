@@ -0,0 +1,123 @@
+import type { BlockSplitter } from "./blocks";
+import { splitStackTraceBlocks, splitStackTraceEvents } from "./stack-traces";
+import { defaultFingerprint, type FingerprintStrategy } from "./normalize";
+import { createTemplateMiner } from "./clustering";
+
+export type CountFormatter = (block: string, count: number) => string;
+
+export const defaultCountFormatter: CountFormatter = (block, count) =>
+  `${block} [x${count}]`;
+
+export interface DedupOptions {
+  splitBlocks?: BlockSplitter;
+  fingerprint?: FingerprintStrategy;
+  formatCount?: CountFormatter;
+  // Between 0 and 1. When set, blocks whose fingerprints share at least this
+  // share of tokens are grouped under a common template instead of requiring
+  // identical fingerprints.
+  similarityThreshold?: number;
+}
+
+export interface DedupGroup {
+  fingerprint: string;
+  count: number;
+  originalMessage: string;
+  // The fingerprint shared by all members, with <*> where they differ.
+  // Only set when clustering by similarity.
+  template?: string;
+  // Zero-based line ranges of every occurrence in the input log.
+  occurrences: { startLine: number; endLine: number }[];
+}
+
+export interface DedupResult {
+  output: string;
+  groups: DedupGroup[];
+  // For every line of the output, the input line it was taken from.
+  lineMap: number[];
+}
+
+export interface DedupEngine {
+  run(log: string): DedupResult;
+  deduplicate(log: string): string;
+}
+
+export function createDedupEngine(options: DedupOptions = {}): DedupEngine {
+  // Similarity is measured per message, so clustering never compares whole paragraphs.
+  const splitBlocks =
+    options.splitBlocks ??
+    (options.similarityThreshold === undefined ? splitStackTraceBlocks : splitStackTraceEvents);
+  const fingerprint = options.fingerprint ?? defaultFingerprint;
+  const formatCount = options.formatCount ?? defaultCountFormatter;
+
+  const run = (log: string): DedupResult => {
+    const errorCache = new Map<string, DedupGroup>();
+    const miner =
+      options.similarityThreshold === undefined ? undefined : createTemplateMiner(options.similarityThreshold);
+    const processed: ({ text: string; fingerprint: string; startLine: number; endLine: number } | { line: number })[] = [];
+
+    for (const segment of splitBlocks(log)) {
+      if (segment.kind === "blank") {
+        processed.push({ line: segment.line });
+        continue;
+      }
+
+      const key = miner ? miner.add(fingerprint(segment.text)) : fingerprint(segment.text);
+      const occurrence = { startLine: segment.startLine, endLine: segment.endLine };
+      const entry = errorCache.get(key);
+
+      if (entry) {
+        entry.count++;
+        entry.occurrences.push(occurrence);
+      } else {
+        errorCache.set(key, {
+          fingerprint: key,
+          count: 1,
+          originalMessage: segment.text,
+          occurrences: [occurrence],
+        });
+        processed.push({ text: segment.text, fingerprint: key, ...occurrence });
+      }
+    }
+
+    const outputLines: string[] = [];
+    const lineMap: number[] = [];
+
+    for (const item of processed) {
+      if ("line" in item) {
+        outputLines.push("");
+        lineMap.push(item.line);
+        continue;
+      }
+
+      const entry = errorCache.get(item.fingerprint)!;
+      const text = entry.count > 1 ? formatCount(item.text, entry.count) : item.text;
+      // A custom formatter may add lines; those are attributed to the block's last line.
+      text.split("\n").forEach((line, k) => {
+        outputLines.push(line);
+        lineMap.push(Math.min(item.startLine + k, item.endLine));
+      });
+    }
+
+    const groups = Array.from(errorCache.values());
+    if (miner) {
+      for (const group of groups) {
+        group.template = miner.template(group.fingerprint);
+        group.fingerprint = group.template;
+      }
+    }
+
+    return { output: outputLines.join("\n"), groups, lineMap };
+  };
+
+  return {
+    run,
+    deduplicate: (log) => run(log).output,
+  };
+}
+
+const defaultEngine = createDedupEngine();
+
+export function deduplicateLog(log: string, options?: DedupOptions): string {
+  const engine = options ? createDedupEngine(options) : defaultEngine;
+  return engine.deduplicate(log);
+}
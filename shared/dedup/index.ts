@@ -0,0 +1,7 @@
+export * from "./blocks";
+export * from "./stack-traces";
+export * from "./normalize";
+export * from "./safe-regex";
+export * from "./clustering";
+export * from "./engine";
+export * from "./streaming";
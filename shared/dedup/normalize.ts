@@ -0,0 +1,97 @@
+import type { NormalizationRule } from "../schema";
+
+export type FingerprintStrategy = (block: string) => string;
+export type Normalizer = (message: string) => string;
+
+// Applied in order, so the specific masks run before the catch-all digit
+// rule would otherwise break UUIDs, addresses and IPs into pieces.
+export const defaultNormalizationRules: NormalizationRule[] = [
+  {
+    name: "uuid",
+    pattern: "\\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\\b",
+    flags: "i",
+    replacement: "<uuid>",
+    enabled: true,
+  },
+  {
+    name: "timestamp",
+    pattern: "\\b\\d{4}-\\d{2}-\\d{2}[T ]\\d{2}:\\d{2}:\\d{2}(?:[.,]\\d+)?(?:Z|[+-]\\d{2}:?\\d{2})?",
+    flags: "",
+    replacement: "<timestamp>",
+    enabled: true,
+  },
+  {
+    name: "hex-address",
+    pattern: "\\b0x[0-9a-f]+\\b",
+    flags: "i",
+    replacement: "<addr>",
+    enabled: true,
+  },
+  {
+    name: "ip-address",
+    pattern: "\\b(?:\\d{1,3}\\.){3}\\d{1,3}(?::\\d{1,5})?\\b",
+    flags: "",
+    replacement: "<ip>",
+    enabled: true,
+  },
+  {
+    name: "temp-path",
+    pattern: "(?:/(?:var/)?tmp|[a-z]:\\\\(?:[^\\\\\\s]+\\\\)*temp)(?:[/\\\\][^\\s/\\\\:'\",)]+)+",
+    flags: "i",
+    replacement: "<tmp>",
+    enabled: true,
+  },
+  {
+    name: "bracketed-id",
+    pattern: "\\[[\\w\\s]+\\]",
+    flags: "",
+    replacement: "[ID]",
+    enabled: true,
+  },
+  {
+    name: "number",
+    pattern: "\\d+",
+    flags: "",
+    replacement: "<num>",
+    enabled: true,
+  },
+];
+
+export function isBuiltInRule(rule: Pick<NormalizationRule, "pattern" | "flags">): boolean {
+  return defaultNormalizationRules.some(
+    (builtIn) => builtIn.pattern === rule.pattern && builtIn.flags.replace("g", "") === rule.flags.replace("g", ""),
+  );
+}
+
+// Total time custom rules may take over the life of one normalizer. Past it
+// they are skipped, so a slow pattern degrades deduplication instead of
+// holding up the server.
+export const CUSTOM_RULE_BUDGET_MS = 500;
+
+export function createNormalizer(rules: NormalizationRule[]): Normalizer {
+  const masks = rules
+    .filter((rule) => rule.enabled)
+    .map((rule) => ({
+      regex: new RegExp(rule.pattern, rule.flags.replace("g", "") + "g"),
+      replacement: rule.replacement,
+      custom: !isBuiltInRule(rule),
+    }));
+  let customTimeMs = 0;
+
+  return (message) =>
+    masks
+      .reduce((text, { regex, replacement, custom }) => {
+        if (!custom) return text.replace(regex, replacement);
+        if (customTimeMs >= CUSTOM_RULE_BUDGET_MS) return text;
+
+        const start = performance.now();
+        const replaced = text.replace(regex, replacement);
+        customTimeMs += performance.now() - start;
+        return replaced;
+      }, message)
+      .trim();
+}
+
+export const normalizeErrorMessage: Normalizer = createNormalizer(defaultNormalizationRules);
+
+export const defaultFingerprint: FingerprintStrategy = normalizeErrorMessage;
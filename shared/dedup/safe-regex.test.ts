@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { normalizationRuleSchema } from "../schema";
+import { createNormalizer, defaultNormalizationRules } from "./normalize";
+import { unsafePatternReason } from "./safe-regex";
+
+describe("unsafePatternReason", () => {
+  it.each([
+    "\\bsession=\\w+",
+    "user \\d{1,6}",
+    "(?:[.,]\\d+)?",
+    "[a-z(+)]+ id=\\d+",
+    "req-(?<id>[0-9a-f]{8})",
+    "(?:ab){2}c",
+    "\\d{4}-\\d{2}-\\d{2}",
+    "https?://\\S+ took \\d{1,6}ms",
+  ])("allows %s", (pattern) => {
+    expect(unsafePatternReason(pattern)).toBeUndefined();
+  });
+
+  it.each([
+    ["(a+)+$", /repeated group/],
+    ["(a|aa)*b", /repeated group/],
+    ["(?:\\w+\\s?){2,}x", /repeated group/],
+    ["(a)\\1", /Backreferences/],
+    ["\\w+\\s*\\d+", /unbounded or wide quantifiers/],
+    ["\\w{1,60}\\w{1,60}\\w{1,60}\\w{1,60}!", /unbounded or wide quantifiers/],
+    ["\\w+\\d{0,50}x*", /unbounded or wide quantifiers/],
+    ["\\w{1,10}\\w{1,10}\\w{1,10}\\w{1,10}!", /too many ways/],
+    ["a".repeat(201), /200 characters/],
+  ])("rejects %s", (pattern, reason) => {
+    expect(unsafePatternReason(pattern)).toMatch(reason);
+  });
+});
+
+describe("normalizationRuleSchema", () => {
+  it("accepts the built-in rules even where they fall outside the restricted syntax", () => {
+    for (const rule of defaultNormalizationRules) {
+      expect(normalizationRuleSchema.safeParse(rule).success).toBe(true);
+    }
+  });
+
+  it("rejects stacked wide bounded repeats", () => {
+    const pattern = "\\w{1,60}\\w{1,60}\\w{1,60}\\w{1,60}!";
+    expect(normalizationRuleSchema.safeParse({ name: "slow", pattern, replacement: "" }).success).toBe(false);
+  });
+
+  it("rejects a custom rule with a catastrophic pattern", () => {
+    const result = normalizationRuleSchema.safeParse({ name: "evil", pattern: "(a+)+$", replacement: "" });
+    expect(result.success).toBe(false);
+  });
+});
+
+describe("createNormalizer", () => {
+  it("applies custom rules after the ones before them", () => {
+    const normalize = createNormalizer([
+      { name: "session", pattern: "session=\\w+", flags: "", replacement: "session=<id>", enabled: true },
+      ...defaultNormalizationRules,
+    ]);
+    expect(normalize("login failed session=ab12 after 3 tries")).toBe("login failed session=<id> after <num> tries");
+  });
+});
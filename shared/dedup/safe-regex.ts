@@ -0,0 +1,115 @@
+// Normalization rules are compiled and run on the server, where a pattern
+// that backtracks catastrophically would block every other request. User
+// patterns are therefore limited to a syntax whose matching time stays
+// polynomial with a small exponent: nothing repeated that can itself match
+// in more than one way, and only a few unbounded quantifiers. A wide bounded
+// repeat such as {1,60} backtracks like an unbounded one and counts as one.
+// Every variable repeat multiplies the ways a pattern can match, so their
+// product is capped as well, with an unbounded one weighing as much as {0,9}.
+
+export const MAX_PATTERN_LENGTH = 200;
+export const MAX_UNBOUNDED_QUANTIFIERS = 2;
+// Repeats allowing more counts than this, e.g. {1,12}, count as unbounded.
+export const MAX_BOUNDED_SPAN = 10;
+// The product of the counts that narrow repeats and "?" allow.
+export const MAX_BOUNDED_CHOICES = 1000;
+
+interface Group {
+  // Whether the group contains a quantifier or an alternation, directly or nested.
+  ambiguous: boolean;
+}
+
+// Returns why a pattern is not allowed, or undefined when it is.
+export function unsafePatternReason(pattern: string): string | undefined {
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Patterns are limited to ${MAX_PATTERN_LENGTH} characters`;
+  }
+
+  const groups: Group[] = [{ ambiguous: false }];
+  // What a quantifier at the current position would repeat.
+  let previous: "none" | "atom" | "plain-group" | "ambiguous-group" = "none";
+  let unbounded = 0;
+  let choices = 1;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const current = groups[groups.length - 1];
+
+    switch (char) {
+      case "\\": {
+        const next = pattern[i + 1];
+        if (/[1-9]/.test(next ?? "") || next === "k") return "Backreferences are not allowed";
+        i++;
+        previous = "atom";
+        break;
+      }
+      case "[": {
+        // Skip to the unescaped "]" closing the class; a leading "]" is literal.
+        let j = i + 1;
+        if (pattern[j] === "^") j++;
+        if (pattern[j] === "]") j++;
+        while (j < pattern.length && pattern[j] !== "]") j += pattern[j] === "\\" ? 2 : 1;
+        i = j;
+        previous = "atom";
+        break;
+      }
+      case "(": {
+        groups.push({ ambiguous: false });
+        // Skip the "?:", "?=", "?!", "?<=", "?<!" or "?<name>" prefix.
+        const prefix = pattern.slice(i + 1).match(/^\?(?:<[A-Za-z_$][\w$]*>|<[=!]|[:=!])/);
+        if (prefix) i += prefix[0].length;
+        previous = "none";
+        break;
+      }
+      case ")": {
+        const closed = groups.pop()!;
+        if (groups.length === 0) return "Unbalanced parenthesis";
+        if (closed.ambiguous) groups[groups.length - 1].ambiguous = true;
+        previous = closed.ambiguous ? "ambiguous-group" : "plain-group";
+        break;
+      }
+      case "|":
+        current.ambiguous = true;
+        previous = "none";
+        break;
+      case "*":
+      case "+":
+      case "?":
+      case "{": {
+        const bounds = char === "{" ? pattern.slice(i).match(/^\{(\d+)(,(\d*))?\}/) : null;
+        if (char === "{" && !bounds) {
+          previous = "atom";
+          break;
+        }
+
+        const min = char === "+" ? 1 : bounds ? Number(bounds[1]) : 0;
+        let max = Infinity;
+        if (char === "?") max = 1;
+        else if (bounds && bounds[2] === undefined) max = min;
+        else if (bounds && bounds[3] !== "") max = Number(bounds[3]);
+        const repeats = max > 1;
+        if (repeats && previous === "ambiguous-group") {
+          return "A repeated group may not contain quantifiers or alternatives";
+        }
+        const wide = max - min > MAX_BOUNDED_SPAN;
+        if (wide && ++unbounded > MAX_UNBOUNDED_QUANTIFIERS) {
+          return `Patterns may use at most ${MAX_UNBOUNDED_QUANTIFIERS} unbounded or wide quantifiers (*, +, {n,} or {n,m} with m - n > ${MAX_BOUNDED_SPAN})`;
+        }
+        if ((choices *= wide ? MAX_BOUNDED_SPAN : max - min + 1) > MAX_BOUNDED_CHOICES) {
+          return "Quantifiers together allow too many ways to match";
+        }
+
+        current.ambiguous = true;
+        if (bounds) i += bounds[0].length - 1;
+        // Skip the lazy marker.
+        if (pattern[i + 1] === "?") i++;
+        previous = "none";
+        break;
+      }
+      default:
+        previous = "atom";
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { deduplicateLog } from "./engine";
+import { splitStackTraceBlocks, splitStackTraceEvents } from "./stack-traces";
+
+const javaTrace = (line: number) =>
+  `java.lang.IllegalStateException: boom\n\tat com.a.B.c(B.java:${line})\n\tat com.a.B.d(B.java:20)`;
+
+describe("splitStackTraceBlocks", () => {
+  it("splits a paragraph into a Java trace and the lines around it", () => {
+    const segments = splitStackTraceBlocks(`INFO start\n${javaTrace(10)}\nINFO end`);
+
+    expect(segments).toEqual([
+      { kind: "block", text: "INFO start", startLine: 0, endLine: 0 },
+      { kind: "block", text: javaTrace(10), startLine: 1, endLine: 3, language: "java" },
+      { kind: "block", text: "INFO end", startLine: 4, endLine: 4 },
+    ]);
+  });
+
+  it("keeps paragraphs without a trace whole", () => {
+    expect(splitStackTraceBlocks("plain a\nplain b\n\nplain c")).toEqual([
+      { kind: "block", text: "plain a\nplain b", startLine: 0, endLine: 1 },
+      { kind: "blank", line: 2 },
+      { kind: "block", text: "plain c", startLine: 3, endLine: 3 },
+    ]);
+  });
+
+  it("keeps a Go panic together across the blank line before its goroutines", () => {
+    const panic = "panic: boom\n\ngoroutine 1 [running]:\nmain.main()\n\t/app/main.go:5 +0x1d\nexit status 2";
+    expect(splitStackTraceBlocks(panic)).toEqual([
+      { kind: "block", text: panic, startLine: 0, endLine: 5, language: "go" },
+    ]);
+  });
+});
+
+describe("splitStackTraceEvents", () => {
+  it("ends a Python traceback at its exception message", () => {
+    const traceback = 'Traceback (most recent call last):\n  File "a.py", line 1, in <module>\n    f()\nValueError: bad';
+    expect(splitStackTraceEvents(`x\n${traceback}\ny`)).toEqual([
+      { kind: "block", text: "x", startLine: 0, endLine: 0 },
+      { kind: "block", text: traceback, startLine: 1, endLine: 4, language: "python" },
+      { kind: "block", text: "y", startLine: 5, endLine: 5 },
+    ]);
+  });
+});
+
+describe("deduplicating stack traces", () => {
+  it("counts a repeated trace once even when it is interleaved with other lines", () => {
+    const log = `INFO start\n${javaTrace(10)}\nINFO mid\n${javaTrace(11)}\nINFO end`;
+    expect(deduplicateLog(log)).toBe(`INFO start\n${javaTrace(10)} [x2]\nINFO mid\nINFO end`);
+  });
+});
@@ -0,0 +1,183 @@
+import { splitBlankLineBlocks, type BlockSplitter, type LogSegment } from "./blocks";
+
+export type StackTraceLanguage = "java" | "python" | "node" | "go" | "dotnet" | "rust";
+
+// Frame and continuation lines shared by the JVM, Node and .NET, which all
+// print "at ..." frames indented under the exception line.
+const AT_FRAME = /^\s+at\s/;
+const JVM_CONTINUATION = /^\s*(?:Caused by|Suppressed):|^\s+\.\.\. \d+ (?:more|common frames omitted)/;
+const DOTNET_CONTINUATION = /^\s*(?:--->\s|--- End of )/;
+
+const JAVA_FRAME = /\.(?:java|kt|scala|groovy|clj):\d+\)|\((?:Native Method|Unknown Source(?::\d+)?)\)/;
+const NODE_FRAME = /\.[cm]?[jt]sx?:\d+:\d+\)?\s*$|\((?:node:|<anonymous>)/;
+const DOTNET_FRAME = / in .+:line \d+\s*$/;
+
+// A line naming an exception, e.g. "java.lang.IllegalStateException: boom",
+// "TypeError: x is undefined" or "Unhandled exception. System.Exception: boom".
+const EXCEPTION_LINE = /^(?:Unhandled exception\.\s+)?(?:[\w$]+\.)*[\w$]*(?:Exception|Error|Throwable)\b/;
+const ERROR_HINT = /\b(?:error|fatal|severe|critical|exception|fail(?:ed|ure)?|panic)\b/i;
+
+const PYTHON_HEADER = /^Traceback \(most recent call last\):\s*$/;
+const PYTHON_CHAIN = /^(?:During handling of the above exception, another exception occurred|The above exception was the direct cause of the following exception):\s*$/;
+
+const GO_HEADER = /^(?:panic|fatal error): /;
+const GO_GOROUTINE = /^goroutine \d+ \[.*\]:\s*$/;
+const GO_FRAME = /^\t|^created by |^\[signal |^exit status \d+|^[\w.\/*()\-]+\(.*\)\s*$/;
+
+const RUST_HEADER = /^thread '.*' panicked at /;
+const RUST_FRAME = /^note: |^stack backtrace:|^\s+\d+: |^\s+at /;
+
+type Mode = "none" | "python" | "go" | "rust-message" | "rust";
+
+interface TraceEvent {
+  start: number;
+  end: number;
+  trace: boolean;
+  language?: StackTraceLanguage;
+}
+
+function frameLanguage(line: string): StackTraceLanguage | undefined {
+  if (JAVA_FRAME.test(line)) return "java";
+  if (NODE_FRAME.test(line)) return "node";
+  if (DOTNET_FRAME.test(line) || DOTNET_CONTINUATION.test(line)) return "dotnet";
+  return undefined;
+}
+
+function isGenericFrame(line: string): boolean {
+  return AT_FRAME.test(line) || JVM_CONTINUATION.test(line) || DOTNET_CONTINUATION.test(line);
+}
+
+function headerMode(line: string): { mode: Mode; language: StackTraceLanguage } | undefined {
+  if (PYTHON_HEADER.test(line)) return { mode: "python", language: "python" };
+  if (GO_HEADER.test(line) || GO_GOROUTINE.test(line)) return { mode: "go", language: "go" };
+  if (RUST_HEADER.test(line)) return { mode: "rust-message", language: "rust" };
+  return undefined;
+}
+
+// Splits one blank-line paragraph into events: a trace header together with
+// its frames, or a single ordinary line.
+function splitEvents(lines: string[], start: number, end: number): TraceEvent[] {
+  const events: TraceEvent[] = [];
+  let mode: Mode = "none";
+
+  for (let i = start; i <= end; i++) {
+    const line = lines[i];
+    const current = events[events.length - 1];
+
+    if (current) {
+      let continues = false;
+
+      switch (mode) {
+        case "python":
+          continues = true;
+          // The first unindented line is the exception message that ends the traceback.
+          if (!/^\s/.test(line)) mode = "none";
+          break;
+        case "go":
+          continues = GO_FRAME.test(line);
+          break;
+        case "rust-message":
+          continues = true;
+          mode = "rust";
+          break;
+        case "rust":
+          continues = RUST_FRAME.test(line);
+          break;
+      }
+
+      if (!continues && isGenericFrame(line)) {
+        continues = true;
+        current.language ??= frameLanguage(line);
+      }
+
+      if (continues) {
+        current.end = i;
+        current.trace = true;
+        continue;
+      }
+    }
+
+    mode = "none";
+    const header = headerMode(line);
+    const startsTrace =
+      header !== undefined || (EXCEPTION_LINE.test(line) && i < end && isGenericFrame(lines[i + 1]));
+
+    // "ERROR Failed to process" followed by the exception it logged is one event.
+    if (startsTrace && current && !current.trace && current.start === i - 1 && ERROR_HINT.test(lines[i - 1])) {
+      current.end = i;
+      current.trace = true;
+      current.language = header?.language;
+      mode = header?.mode ?? "none";
+      continue;
+    }
+
+    events.push({ start: i, end: i, trace: header !== undefined, language: header?.language });
+    mode = header?.mode ?? "none";
+  }
+
+  return events;
+}
+
+// Whether a paragraph continues the trace that ended before the blank lines
+// in front of it: chained Python exceptions and Go goroutine dumps both put
+// blank lines inside a single trace.
+function continuesAcrossBlank(previous: TraceEvent, lines: string[], line: string): boolean {
+  if (previous.language === "python") {
+    return PYTHON_CHAIN.test(line) || (PYTHON_HEADER.test(line) && PYTHON_CHAIN.test(lines[previous.end]));
+  }
+  if (previous.language === "go") {
+    return GO_GOROUTINE.test(line);
+  }
+  return false;
+}
+
+function splitTraces(log: string, keepPlainParagraphs: boolean): LogSegment[] {
+  const lines = log.split("\n");
+  const segments: LogSegment[] = [];
+  let lastTrace: TraceEvent | undefined;
+
+  const toSegment = (event: TraceEvent): LogSegment => ({
+    kind: "block",
+    text: lines.slice(event.start, event.end + 1).join("\n"),
+    startLine: event.start,
+    endLine: event.end,
+    language: event.language,
+  });
+
+  for (const segment of splitBlankLineBlocks(log)) {
+    if (segment.kind === "blank") {
+      segments.push(segment);
+      continue;
+    }
+
+    const events = splitEvents(lines, segment.startLine, segment.endLine);
+    const [first] = events;
+
+    if (lastTrace && continuesAcrossBlank(lastTrace, lines, lines[first.start])) {
+      // Drop the blank segments between the two parts and extend the earlier event.
+      while (segments[segments.length - 1]?.kind === "blank") segments.pop();
+      segments.pop();
+      lastTrace.end = first.end;
+      events[0] = lastTrace;
+    } else if (keepPlainParagraphs && !events.some((event) => event.trace)) {
+      segments.push(segment);
+      lastTrace = undefined;
+      continue;
+    }
+
+    for (const event of events) {
+      segments.push(toSegment(event));
+    }
+    const last = events[events.length - 1];
+    lastTrace = last.trace ? last : undefined;
+  }
+
+  return segments;
+}
+
+// Paragraphs without any stack trace are kept whole, exactly as
+// splitBlankLineBlocks would return them.
+export const splitStackTraceBlocks: BlockSplitter = (log) => splitTraces(log, true);
+
+// Like splitStackTraceBlocks, but every line outside a trace is an event of its own.
+export const splitStackTraceEvents: BlockSplitter = (log) => splitTraces(log, false);
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { createEventSplitter, createStreamingDedupEngine } from "./streaming";
+
+const identity = (event: string) => event;
+
+describe("createStreamingDedupEngine", () => {
+  it("writes an event once and summarizes its repeats when the window closes", () => {
+    const engine = createStreamingDedupEngine({ windowMs: 1000 });
+    expect(engine.push("ERROR boom 1", 0).output.map((o) => o.text)).toEqual(["ERROR boom 1"]);
+    expect(engine.push("ERROR boom 2", 400).suppressed).toBe(true);
+    expect(engine.push("ERROR boom 3", 600).output).toEqual([]);
+
+    expect(engine.expire(1000).output.map((o) => o.text)).toEqual(["ERROR boom 1 … repeated 2 times in 600ms"]);
+    expect(engine.size).toBe(0);
+  });
+
+  it("keeps at most maxFingerprints windows, evicting the least recently seen", () => {
+    const engine = createStreamingDedupEngine({ fingerprint: identity, maxFingerprints: 100, windowMs: Infinity });
+    for (let i = 0; i < 1000; i++) engine.push(`event ${i}`, i);
+    expect(engine.size).toBe(100);
+
+    engine.push("event 900", 1000);
+    engine.push("new event", 1001);
+    expect(engine.push("event 900", 1002).suppressed).toBe(true);
+    expect(engine.push("event 901", 1003).suppressed).toBe(false);
+  });
+
+  it("still expires windows when times go backwards", () => {
+    const engine = createStreamingDedupEngine({ fingerprint: identity, windowMs: 1000 });
+    engine.push("late", 5000);
+    engine.push("early", 0);
+    engine.push("early", 100);
+
+    // "early" counts as opened at 5000, so both windows close together.
+    expect(engine.expire(5999).closed).toEqual([]);
+    expect(engine.expire(6000).closed.map((group) => group.example)).toEqual(["late", "early"]);
+  });
+});
+
+describe("createEventSplitter", () => {
+  it("keeps stack frames with the line above them across chunks", () => {
+    const splitter = createEventSplitter();
+    expect(splitter.push("Error: boom\n    at a (a.js:1)\n    at b")).toEqual([]);
+    expect(splitter.push(" (b.js:2)\nINFO next\n")).toEqual(["Error: boom\n    at a (a.js:1)\n    at b (b.js:2)"]);
+    expect(splitter.end()).toEqual(["INFO next"]);
+  });
+});
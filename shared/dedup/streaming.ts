@@ -0,0 +1,212 @@
+import { defaultFingerprint, type FingerprintStrategy } from "./normalize";
+
+// Formats the line written when a window with suppressed repeats closes.
+export type SummaryFormatter = (event: string, repeats: number, durationMs: number) => string;
+
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${Math.max(0, Math.round(ms))}ms`;
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return seconds % 60 ? `${minutes}m ${seconds % 60}s` : `${minutes}m`;
+  return minutes % 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${Math.floor(minutes / 60)}h`;
+}
+
+export const defaultSummaryFormatter: SummaryFormatter = (event, repeats, durationMs) =>
+  `${event.split("\n", 1)[0]} … repeated ${repeats} ${repeats === 1 ? "time" : "times"} in ${formatDuration(durationMs)}`;
+
+export const DEFAULT_REPEAT_WINDOW_MS = 30_000;
+export const DEFAULT_MAX_FINGERPRINTS = 10_000;
+
+export interface StreamingDedupOptions {
+  fingerprint?: FingerprintStrategy;
+  formatSummary?: SummaryFormatter;
+  // Repeats within this many milliseconds of the event that opened the
+  // window are suppressed. Infinity keeps windows open until the
+  // fingerprint is evicted or the stream is flushed.
+  windowMs?: number;
+  // Fingerprints remembered at once; the least recently seen is evicted first.
+  maxFingerprints?: number;
+}
+
+export interface StreamingGroup {
+  // Stable for the life of the engine, so a window can be told apart from a
+  // later one with the same fingerprint.
+  id: number;
+  fingerprint: string;
+  // The event that opened the window.
+  example: string;
+  // Occurrences in this window, the first one included.
+  count: number;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+export type StreamingOutput =
+  | { kind: "event"; text: string; group: StreamingGroup }
+  | { kind: "summary"; text: string; group: StreamingGroup };
+
+export interface StreamingPushResult {
+  // The window the event was counted in.
+  group: StreamingGroup;
+  suppressed: boolean;
+  // Summaries of windows closed by this push, then the event unless suppressed.
+  output: StreamingOutput[];
+  // Windows closed by this push, whether or not they had repeats.
+  closed: StreamingGroup[];
+}
+
+export interface StreamingCloseResult {
+  output: StreamingOutput[];
+  closed: StreamingGroup[];
+}
+
+export interface StreamingDedupEngine {
+  // Processes one event; `time` defaults to now. A time earlier than one
+  // already seen counts as that later time. Memory stays bounded by
+  // maxFingerprints however long the stream runs.
+  push(event: string, time?: number): StreamingPushResult;
+  // Closes the windows that ended by `time`.
+  expire(time?: number): StreamingCloseResult;
+  // Closes every open window, e.g. at the end of the input.
+  flush(): StreamingCloseResult;
+  readonly size: number;
+}
+
+export function createStreamingDedupEngine(options: StreamingDedupOptions = {}): StreamingDedupEngine {
+  const fingerprint = options.fingerprint ?? defaultFingerprint;
+  const formatSummary = options.formatSummary ?? defaultSummaryFormatter;
+  const windowMs = options.windowMs ?? DEFAULT_REPEAT_WINDOW_MS;
+  const maxFingerprints = Math.max(1, options.maxFingerprints ?? DEFAULT_MAX_FINGERPRINTS);
+
+  // Both maps hold the same open windows: `recent` in order of last
+  // occurrence for eviction, `opened` in order of opening for expiry.
+  const recent = new Map<string, StreamingGroup>();
+  const opened = new Map<string, StreamingGroup>();
+  let nextId = 1;
+  // Times never go backwards, so windows open in time order and expiry only
+  // has to check the oldest ones, even when the clock or the log is out of order.
+  let latest = -Infinity;
+  const advance = (time: number) => (latest = Math.max(latest, time));
+
+  const close = (group: StreamingGroup, result: StreamingCloseResult) => {
+    recent.delete(group.fingerprint);
+    opened.delete(group.fingerprint);
+    result.closed.push(group);
+    if (group.count > 1) {
+      result.output.push({
+        kind: "summary",
+        text: formatSummary(group.example, group.count - 1, group.lastSeen - group.firstSeen),
+        group,
+      });
+    }
+  };
+
+  const expire = (at = Date.now()): StreamingCloseResult => {
+    const result: StreamingCloseResult = { output: [], closed: [] };
+    const time = advance(at);
+    let oldest = opened.values().next();
+    while (!oldest.done && time - oldest.value.firstSeen >= windowMs) {
+      close(oldest.value, result);
+      oldest = opened.values().next();
+    }
+    return result;
+  };
+
+  const push = (event: string, at = Date.now()): StreamingPushResult => {
+    const { output, closed } = expire(at);
+    const time = latest;
+    const key = fingerprint(event);
+    const existing = recent.get(key);
+
+    if (existing) {
+      existing.count++;
+      existing.lastSeen = time;
+      recent.delete(key);
+      recent.set(key, existing);
+      return { group: existing, suppressed: true, output, closed };
+    }
+
+    const group: StreamingGroup = {
+      id: nextId++,
+      fingerprint: key,
+      example: event,
+      count: 1,
+      firstSeen: time,
+      lastSeen: time,
+    };
+    recent.set(key, group);
+    opened.set(key, group);
+
+    if (recent.size > maxFingerprints) {
+      close(recent.values().next().value!, { output, closed });
+    }
+
+    output.push({ kind: "event", text: event, group });
+    return { group, suppressed: false, output, closed };
+  };
+
+  const flush = (): StreamingCloseResult => {
+    const result: StreamingCloseResult = { output: [], closed: [] };
+    Array.from(opened.values()).forEach((group) => close(group, result));
+    return result;
+  };
+
+  return {
+    push,
+    expire,
+    flush,
+    get size() {
+      return recent.size;
+    },
+  };
+}
+
+// Indented frames and chained causes belong to the event above them.
+const CONTINUATION = /^\s+\S|^(?:Caused by|Suppressed):|^\s*\.\.\. \d+ (?:more|common frames omitted)/;
+
+export interface EventSplitter {
+  // Accepts raw text, which may end mid-line, and returns the events it completed.
+  push(chunk: string): string[];
+  // Returns the event waiting for continuation lines, if any, e.g. once
+  // the input has been idle for a while. A trailing partial line is kept.
+  flushPending(): string[];
+  // Returns everything still buffered, at the end of the input.
+  end(): string[];
+}
+
+// Groups a stream of lines into events: a line together with the stack
+// frames indented beneath it. Blank lines are dropped.
+export function createEventSplitter(): EventSplitter {
+  let partialLine = "";
+  let pending: string[] = [];
+
+  const flushPending = (): string[] => {
+    const events = pending.length > 0 ? [pending.join("\n")] : [];
+    pending = [];
+    return events;
+  };
+
+  const addLine = (line: string, events: string[]) => {
+    if (line.trim() === "") return;
+    if (pending.length > 0 && !CONTINUATION.test(line)) events.push(...flushPending());
+    pending.push(line);
+  };
+
+  return {
+    push: (chunk) => {
+      const events: string[] = [];
+      const lines = (partialLine + chunk).replace(/\r\n?/g, "\n").split("\n");
+      partialLine = lines.pop() ?? "";
+      lines.forEach((line) => addLine(line, events));
+      return events;
+    },
+    flushPending,
+    end: () => {
+      const events: string[] = [];
+      addLine(partialLine, events);
+      partialLine = "";
+      return [...events, ...flushPending()];
+    },
+  };
+}
@@ -0,0 +1,36 @@
+import type { LogFormat } from "./types";
+
+// Common Log Format, optionally followed by the referer and user agent of the
+// Combined Log Format: host ident user [date] "request" status bytes
+const CLF = /^(\S+) (\S+) (\S+) \[([^\]]+)\] "((?:[^"\\]|\\.)*)" (\d{3}) (\d+|-)(?: "((?:[^"\\]|\\.)*)" "((?:[^"\\]|\\.)*)")?\s*$/;
+
+function levelForStatus(status: number): string {
+  if (status >= 500) return "error";
+  if (status >= 400) return "warn";
+  return "info";
+}
+
+export const commonLog: LogFormat = {
+  name: "clf",
+  parse(line) {
+    const match = CLF.exec(line);
+    if (!match) return null;
+
+    const [, host, ident, user, timestamp, request, status, bytes, referer, userAgent] = match;
+    return {
+      timestamp,
+      level: levelForStatus(Number(status)),
+      message: `${request} ${status}`,
+      fields: {
+        host,
+        ident,
+        user,
+        bytes,
+        ...(referer !== undefined ? { referer, user_agent: userAgent } : {}),
+      },
+    };
+  },
+  annotateCount(line, count) {
+    return `${line} [x${count}]`;
+  },
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { deduplicateLog } from "../dedup";
+import { dedupOptionsForFormat, detectFormat, parseRecord, recordFingerprint } from "./index";
+
+const jsonLog = [
+  '{"level":"error","msg":"db failed","request_id":"a1","time":"2024-01-01T00:00:00Z"}',
+  '{"level":"error","msg":"db failed","request_id":"b2","time":"2024-01-01T00:00:01Z"}',
+  '{"level":"info","msg":"ok"}',
+].join("\n");
+const logfmtLog = 'level=warn msg="slow query" duration=12ms\nlevel=warn msg="slow query" duration=40ms';
+const syslogLog = [
+  "<34>Oct 11 22:14:15 mymachine su: 'su root' failed for lonvick on /dev/pts/8",
+  "<34>Oct 11 22:14:16 mymachine su: 'su root' failed for lonvick on /dev/pts/8",
+].join("\n");
+const clfLog = [
+  '127.0.0.1 - frank [10/Oct/2000:13:55:36 -0700] "GET /a.gif HTTP/1.0" 500 2326',
+  '10.0.0.2 - - [10/Oct/2000:13:55:37 -0700] "GET /a.gif HTTP/1.0" 500 2326',
+].join("\n");
+
+describe("detectFormat", () => {
+  it.each([
+    ["json", jsonLog],
+    ["logfmt", logfmtLog],
+    ["syslog", syslogLog],
+    ["clf", clfLog],
+    ["text", "just text\nmore text"],
+  ])("detects %s", (format, log) => {
+    expect(detectFormat(log)).toBe(format);
+  });
+});
+
+describe("deduplicating structured logs", () => {
+  it("adds repeat_count to a repeated JSON record", () => {
+    expect(deduplicateLog(jsonLog, dedupOptionsForFormat("json"))).toBe(
+      '{"level":"error","msg":"db failed","request_id":"a1","time":"2024-01-01T00:00:00Z","repeat_count":2}\n' +
+        '{"level":"info","msg":"ok"}',
+    );
+  });
+
+  it("adds repeat_count to a repeated logfmt record", () => {
+    expect(deduplicateLog(logfmtLog, dedupOptionsForFormat("logfmt"))).toBe(
+      'level=warn msg="slow query" duration=12ms repeat_count=2',
+    );
+  });
+
+  it("suffixes repeated syslog and Common Log Format lines with [xN]", () => {
+    expect(deduplicateLog(syslogLog, dedupOptionsForFormat("syslog"))).toBe(
+      "<34>Oct 11 22:14:15 mymachine su: 'su root' failed for lonvick on /dev/pts/8 [x2]",
+    );
+    expect(deduplicateLog(clfLog, dedupOptionsForFormat("clf"))).toBe(
+      '127.0.0.1 - frank [10/Oct/2000:13:55:36 -0700] "GET /a.gif HTTP/1.0" 500 2326 [x2]',
+    );
+  });
+});
+
+describe("recordFingerprint", () => {
+  it("ignores volatile fields and normalizes the message", () => {
+    expect(recordFingerprint(parseRecord("logfmt", 'level=warn msg="x 12" request_id=9 path=/a'))).toBe(
+      "warn | x <num> | path=/a",
+    );
+  });
+
+  it("falls back to free text for lines the format does not parse", () => {
+    expect(parseRecord("json", "not json")).toEqual({ message: "not json", fields: {} });
+  });
+});
@@ -0,0 +1,97 @@
+import { normalizeErrorMessage, splitLineBlocks, type DedupOptions, type Normalizer } from "../dedup";
+import type { LogFormatName } from "../schema";
+import { commonLog } from "./common-log";
+import { jsonLines } from "./json-lines";
+import { logfmt } from "./logfmt";
+import { syslog } from "./syslog";
+import { parseTextLine } from "./text";
+import type { LogFormat, LogRecord } from "./types";
+
+export * from "./types";
+export * from "./level";
+export { parseTextLine } from "./text";
+
+// Checked in this order; logfmt goes last since it is the loosest match.
+export const logFormats: Record<Exclude<LogFormatName, "text">, LogFormat> = {
+  json: jsonLines,
+  clf: commonLog,
+  syslog,
+  logfmt,
+};
+
+const DETECTION_SAMPLE_SIZE = 50;
+const DETECTION_THRESHOLD = 0.8;
+
+export function detectFormat(log: string): LogFormatName {
+  const sample = log
+    .split("\n")
+    .filter((line) => line.trim() !== "")
+    .slice(0, DETECTION_SAMPLE_SIZE);
+  if (sample.length === 0) return "text";
+
+  for (const [name, format] of Object.entries(logFormats)) {
+    const parsed = sample.filter((line) => format.parse(line) !== null).length;
+    if (parsed / sample.length >= DETECTION_THRESHOLD) {
+      return name as LogFormatName;
+    }
+  }
+  return "text";
+}
+
+// Parses a line in the given format, falling back to free text for lines
+// the format does not recognise.
+export function parseRecord(name: LogFormatName, line: string): LogRecord {
+  return (name === "text" ? null : logFormats[name].parse(line)) ?? parseTextLine(line);
+}
+
+// Fields that differ between otherwise identical events, matched on the last
+// word of the key so that "request_id" and "requestId" are both caught.
+const VOLATILE_KEY_WORDS = new Set([
+  "id", "uuid", "guid", "pid", "tid", "trace", "span", "host", "hostname", "ip", "addr",
+  "port", "ident", "user", "bytes", "size", "duration", "elapsed", "latency", "took", "ms",
+]);
+
+function isVolatileKey(key: string): boolean {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[\s_.\-@\/]+/)
+    .filter(Boolean);
+  return VOLATILE_KEY_WORDS.has(words[words.length - 1]?.toLowerCase() ?? "");
+}
+
+export function recordFingerprint(record: LogRecord, normalize: Normalizer = normalizeErrorMessage): string {
+  const fields = Object.keys(record.fields)
+    .filter((key) => !isVolatileKey(key))
+    .sort()
+    .map((key) => `${key}=${normalize(String(record.fields[key]))}`);
+
+  return [record.level?.toLowerCase() ?? "", normalize(record.message), ...fields].join(" | ");
+}
+
+// Structured logs hold one event per line, are fingerprinted on the parsed
+// record rather than the raw text, and keep their format when annotated.
+// Lines that do not parse fall back to the plain-text fingerprint.
+export function dedupOptionsForFormat(
+  name: LogFormatName,
+  normalize: Normalizer = normalizeErrorMessage,
+): DedupOptions {
+  if (name === "text") return { fingerprint: normalize };
+
+  const format = logFormats[name];
+  return {
+    splitBlocks: splitLineBlocks,
+    fingerprint: (block) => {
+      const record = format.parse(block);
+      return record ? recordFingerprint(record, normalize) : normalize(block);
+    },
+    formatCount: (block, count) => format.annotateCount(block, count),
+  };
+}
+
+// Fingerprints one event without the rest of the log to detect the format
+// from: a structured first line on its parsed record, anything else as text.
+export function eventFingerprint(event: string, normalize: Normalizer = normalizeErrorMessage): string {
+  const [first] = event.split("\n", 1);
+  const name = detectFormat(first);
+  return name === "text" ? normalize(event) : recordFingerprint(parseRecord(name, first), normalize);
+}
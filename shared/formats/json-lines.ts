@@ -0,0 +1,49 @@
+import { toRecord, type FieldValue, type LogFormat } from "./types";
+
+// Numeric levels as written by pino and bunyan.
+const NUMERIC_LEVELS: Record<number, string> = {
+  10: "trace",
+  20: "debug",
+  30: "info",
+  40: "warn",
+  50: "error",
+  60: "fatal",
+};
+
+function parseObject(line: string): Record<string, unknown> | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith("{")) return null;
+  try {
+    const value = JSON.parse(trimmed);
+    return value && typeof value === "object" && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export const jsonLines: LogFormat = {
+  name: "json",
+  parse(line) {
+    const object = parseObject(line);
+    if (!object) return null;
+
+    const values: Record<string, FieldValue> = {};
+    for (const [key, value] of Object.entries(object)) {
+      values[key] =
+        value === null || ["string", "number", "boolean"].includes(typeof value)
+          ? (value as FieldValue)
+          : JSON.stringify(value);
+    }
+
+    const record = toRecord(values);
+    const numericLevel = Number(record.level);
+    if (record.level && NUMERIC_LEVELS[numericLevel]) {
+      record.level = NUMERIC_LEVELS[numericLevel];
+    }
+    return record;
+  },
+  annotateCount(line, count) {
+    const object = parseObject(line);
+    return object ? JSON.stringify({ ...object, repeat_count: count }) : `${line} [x${count}]`;
+  },
+};
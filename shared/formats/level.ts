@@ -0,0 +1,27 @@
+import type { SeverityLevel } from "../schema";
+
+const LEVEL_ALIASES: Record<string, SeverityLevel> = {
+  trace: "trace",
+  verbose: "debug",
+  debug: "debug",
+  fine: "debug",
+  info: "info",
+  information: "info",
+  notice: "info",
+  warn: "warn",
+  warning: "warn",
+  err: "error",
+  error: "error",
+  severe: "error",
+  fatal: "fatal",
+  crit: "fatal",
+  critical: "fatal",
+  alert: "fatal",
+  emerg: "fatal",
+  panic: "fatal",
+};
+
+// Maps the level names used by the various formats and frameworks onto one scale.
+export function toSeverity(level: string | undefined): SeverityLevel | undefined {
+  return level === undefined ? undefined : LEVEL_ALIASES[level.trim().toLowerCase()];
+}
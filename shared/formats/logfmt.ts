@@ -0,0 +1,26 @@
+import { toRecord, type FieldValue, type LogFormat } from "./types";
+
+const PAIR = /([\w.\-@\/]+)=("(?:[^"\\]|\\.)*"|\S*)/g;
+
+function parsePairs(line: string): Record<string, FieldValue> | null {
+  // Anything but whitespace between the pairs means this is free text that
+  // merely contains a key=value somewhere.
+  if (line.replace(PAIR, "").trim() !== "") return null;
+
+  const values: Record<string, FieldValue> = {};
+  for (const [, key, raw] of Array.from(line.matchAll(PAIR))) {
+    values[key] = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, "$1") : raw;
+  }
+  return Object.keys(values).length >= 2 ? values : null;
+}
+
+export const logfmt: LogFormat = {
+  name: "logfmt",
+  parse(line) {
+    const values = parsePairs(line);
+    return values ? toRecord(values) : null;
+  },
+  annotateCount(line, count) {
+    return `${line} repeat_count=${count}`;
+  },
+};
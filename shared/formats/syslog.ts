@@ -0,0 +1,44 @@
+import type { LogFormat, LogRecord } from "./types";
+
+// RFC 5424: <PRI>1 TIMESTAMP HOST APP PROCID MSGID [SD] MSG
+const RFC5424 = /^<(\d{1,3})>1 (\S+) (\S+) (\S+) (\S+) (\S+) (-|(?:\[(?:[^\]\\]|\\.)*\])+)(?: (.*))?$/;
+// RFC 3164: [<PRI>]Mmm dd hh:mm:ss HOST TAG[PID]: MSG
+const RFC3164 = /^(?:<(\d{1,3})>)?([A-Z][a-z]{2} [ \d]\d \d\d:\d\d:\d\d) (\S+) ([^\s:\[]+)(?:\[(\d+)\])?: ?(.*)$/;
+
+const SEVERITIES = ["emerg", "alert", "crit", "error", "warn", "notice", "info", "debug"];
+
+function severity(pri: string | undefined): string | undefined {
+  return pri === undefined ? undefined : SEVERITIES[Number(pri) % 8];
+}
+
+export const syslog: LogFormat = {
+  name: "syslog",
+  parse(line): LogRecord | null {
+    const modern = RFC5424.exec(line);
+    if (modern) {
+      const [, pri, timestamp, host, app, procId, msgId, data, message = ""] = modern;
+      return {
+        timestamp,
+        level: severity(pri),
+        message,
+        fields: { host, app, pid: procId, msgid: msgId, ...(data !== "-" ? { data } : {}) },
+      };
+    }
+
+    const legacy = RFC3164.exec(line);
+    if (legacy) {
+      const [, pri, timestamp, host, app, pid, message] = legacy;
+      return {
+        timestamp,
+        level: severity(pri),
+        message,
+        fields: { host, app, ...(pid ? { pid } : {}) },
+      };
+    }
+
+    return null;
+  },
+  annotateCount(line, count) {
+    return `${line} [x${count}]`;
+  },
+};
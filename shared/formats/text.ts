@@ -0,0 +1,17 @@
+import type { LogRecord } from "./types";
+
+// ISO 8601, syslog ("Jan  2 10:00:00") and Apache ("10/Oct/2000:13:55:36 -0700") timestamps.
+const TIMESTAMP =
+  /\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}:\d{2}(?:[.,]\d+)?(?:Z|[+-]\d{2}:?\d{2})?|\b[A-Z][a-z]{2} [ \d]\d \d\d:\d\d:\d\d\b|\b\d{2}\/[A-Z][a-z]{2}\/\d{4}:\d{2}:\d{2}:\d{2}(?: [+-]\d{4})?/;
+// Only upper-case level names, so that "error" in a sentence is not taken as a level.
+const LEVEL = /\b(TRACE|DEBUG|INFO|NOTICE|WARN(?:ING)?|ERROR|ERR|SEVERE|FATAL|CRIT(?:ICAL)?|PANIC)\b/;
+
+// Free-text lines always parse; the timestamp and level are picked out if present.
+export function parseTextLine(line: string): LogRecord {
+  return {
+    timestamp: line.match(TIMESTAMP)?.[0],
+    level: line.match(LEVEL)?.[1],
+    message: line,
+    fields: {},
+  };
+}
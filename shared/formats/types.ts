@@ -0,0 +1,38 @@
+export type FieldValue = string | number | boolean | null;
+
+export interface LogRecord {
+  timestamp?: string;
+  level?: string;
+  message: string;
+  fields: Record<string, FieldValue>;
+}
+
+import type { LogFormatName } from "../schema";
+
+export interface LogFormat {
+  name: LogFormatName;
+  parse(line: string): LogRecord | null;
+  // Writes a line back in this format, marked as repeated `count` times.
+  annotateCount(line: string, count: number): string;
+}
+
+export const TIMESTAMP_KEYS = ["timestamp", "@timestamp", "time", "ts", "t", "date", "datetime"];
+export const LEVEL_KEYS = ["level", "lvl", "severity", "loglevel", "log.level"];
+export const MESSAGE_KEYS = ["message", "msg", "event", "error", "err"];
+
+// Splits a flat key/value map into a record using the conventional field names.
+export function toRecord(values: Record<string, FieldValue>): LogRecord {
+  const fields = { ...values };
+  const take = (keys: string[]) => {
+    const key = keys.find((candidate) => candidate in fields);
+    if (key === undefined) return undefined;
+    const value = fields[key];
+    delete fields[key];
+    return value === null ? undefined : String(value);
+  };
+
+  const timestamp = take(TIMESTAMP_KEYS);
+  const level = take(LEVEL_KEYS);
+  const message = take(MESSAGE_KEYS) ?? "";
+  return { timestamp, level, message, fields };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { buildCleanReport, prepareLog, restoreRange } from "./pipeline";
+
+const log = [
+  "INFO start",
+  "DEBUG cache warm",
+  "ERROR db down",
+  "",
+  "INFO tick",
+  "ERROR db down",
+  "",
+  "",
+  "",
+  "WARN slow",
+].join("\n");
+
+describe("prepareLog", () => {
+  it("maps what each stage removes back to original line numbers", () => {
+    const prepared = prepareLog(log, { stripNoise: true, minLevel: "warn" });
+
+    expect(prepared.text).toBe("ERROR db down [x2]\n\nWARN slow");
+    expect(prepared.lineMap).toEqual([2, 3, 9]);
+    expect(prepared.removed.map(({ startLine, endLine, reason, rule }) => ({ startLine, endLine, reason, rule }))).toEqual([
+      { startLine: 0, endLine: 0, reason: "level", rule: "info" },
+      { startLine: 1, endLine: 1, reason: "noise", rule: "verbose-level" },
+      { startLine: 4, endLine: 4, reason: "level", rule: "info" },
+      { startLine: 5, endLine: 5, reason: "duplicate", rule: undefined },
+      { startLine: 6, endLine: 8, reason: "noise", rule: "blank-run" },
+    ]);
+  });
+
+  it("points a duplicate at the original lines of its first occurrence", () => {
+    const prepared = prepareLog(log, { stripNoise: true, minLevel: "warn" });
+    const duplicate = prepared.removed.find((range) => range.reason === "duplicate");
+
+    expect(duplicate).toMatchObject({ duplicateOf: { startLine: 2, endLine: 2 }, detail: "Duplicate of block 1 (line 3)" });
+    expect(prepared.groups[0]).toMatchObject({
+      count: 2,
+      level: "error",
+      occurrences: [
+        { startLine: 2, endLine: 2 },
+        { startLine: 5, endLine: 5 },
+      ],
+    });
+  });
+
+  it("keeps every line when no stage applies", () => {
+    const prepared = prepareLog("a\n\nb");
+    expect(prepared.text).toBe("a\n\nb");
+    expect(prepared.lineMap).toEqual([0, 1, 2]);
+    expect(prepared.removed).toEqual([]);
+  });
+});
+
+describe("buildCleanReport", () => {
+  it("attributes non-blank lines missing from the model output to the model, by original line", () => {
+    const prepared = prepareLog(log, { stripNoise: true, minLevel: "warn" });
+    const report = buildCleanReport(prepared, "ERROR db down [x2]\n");
+
+    expect(report.removed.filter((range) => range.reason === "non-critical")).toEqual([
+      { startLine: 9, endLine: 9, reason: "non-critical", detail: "Dropped by the model as non-critical" },
+    ]);
+    expect(report.removed.map((range) => range.startLine)).toEqual([0, 1, 4, 5, 6, 9]);
+  });
+});
+
+describe("restoreRange", () => {
+  it("inserts the range after the closest preceding line that survived", () => {
+    expect(restoreRange("a\nb\nc\nd\ne", "a\nd\ne", { startLine: 1, endLine: 2 })).toBe("a\nb\nc\nd\ne");
+    expect(restoreRange("a\nb\nc\nd\ne", "a\nb\ne", { startLine: 3, endLine: 3 })).toBe("a\nb\nd\ne");
+  });
+
+  it("inserts at the top when no earlier line survived", () => {
+    expect(restoreRange("a\nb\nc\nd\ne", "c\ne", { startLine: 0, endLine: 1 })).toBe("a\nb\nc\ne");
+  });
+});
@@ -0,0 +1,256 @@
+import { diffLines } from "diff";
+import {
+  createDedupEngine,
+  createNormalizer,
+  normalizeErrorMessage,
+  WILDCARD,
+  type DedupOptions,
+} from "./dedup";
+import { dedupOptionsForFormat, detectFormat, parseRecord } from "./formats";
+import { classifyLine, filterBelowLevel } from "./severity";
+import { filterBlankRuns, filterNoise, noiseRules, type NoiseRule } from "./rules/noise";
+import type {
+  ErrorGroup,
+  LineRange,
+  LogFormatName,
+  NormalizationRule,
+  RemovalReason,
+  RemovedRange,
+  SeverityLevel,
+} from "./schema";
+
+export interface PrepareOptions {
+  // Applies the noise rules and blank-run collapsing of the rules-only mode.
+  stripNoise?: boolean;
+  rules?: NoiseRule[];
+  // Detected from the log when omitted.
+  format?: LogFormatName;
+  // Masks applied to messages before fingerprinting; defaults to defaultNormalizationRules.
+  normalizationRules?: NormalizationRule[];
+  similarityThreshold?: number;
+  // Drops lines classified below this level before deduplicating.
+  minLevel?: SeverityLevel;
+  dedup?: DedupOptions;
+}
+
+export interface PreparedLog {
+  text: string;
+  format: LogFormatName;
+  // For every line of `text`, the original line it was taken from.
+  lineMap: number[];
+  removed: RemovedRange[];
+  groups: ErrorGroup[];
+}
+
+export interface CleanReport {
+  removed: RemovedRange[];
+  groups: ErrorGroup[];
+}
+
+interface LineRemoval {
+  line: number;
+  reason: RemovalReason;
+  detail: string;
+  rule?: string;
+  duplicateOf?: LineRange;
+}
+
+export function describeRange({ startLine, endLine }: LineRange): string {
+  return startLine === endLine
+    ? `line ${startLine + 1}`
+    : `lines ${startLine + 1}–${endLine + 1}`;
+}
+
+export function mapRange(range: LineRange, lineMap: number[]): LineRange {
+  return { startLine: lineMap[range.startLine], endLine: lineMap[range.endLine] };
+}
+
+function toRemovedRanges(removals: LineRemoval[]): RemovedRange[] {
+  const sorted = [...removals].sort((a, b) => a.line - b.line);
+  const ranges: RemovedRange[] = [];
+
+  for (const { line, ...why } of sorted) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.endLine === line - 1 && last.reason === why.reason && last.detail === why.detail) {
+      last.endLine = line;
+    } else {
+      ranges.push({ startLine: line, endLine: line, ...why });
+    }
+  }
+
+  return ranges;
+}
+
+// The level of a group comes from the first line of its example that has
+// one; the timestamps from the first and last occurrence that carry one.
+function groupMetadata(
+  lines: string[],
+  occurrences: LineRange[],
+  format: LogFormatName,
+): Pick<ErrorGroup, "level" | "firstSeen" | "lastSeen"> {
+  const [first] = occurrences;
+  let level: ErrorGroup["level"];
+  for (let i = first.startLine; i <= first.endLine && !level; i++) {
+    level = classifyLine(lines[i], format);
+  }
+
+  const timestamps = occurrences
+    .map((occurrence) => parseRecord(format, lines[occurrence.startLine]).timestamp)
+    .filter((timestamp): timestamp is string => timestamp !== undefined);
+
+  return { level, firstSeen: timestamps[0], lastSeen: timestamps[timestamps.length - 1] };
+}
+
+function noiseRemoval(line: number, rule: string): LineRemoval {
+  return { line, reason: "noise", rule, detail: `Filtered by the "${rule}" rule` };
+}
+
+// Runs the deterministic stages in front of the provider, keeping track of
+// which original line every surviving line came from and why every other
+// line was dropped.
+export function prepareLog(log: string, options: PrepareOptions = {}): PreparedLog {
+  const removals: LineRemoval[] = [];
+  const originalLines = log.split("\n");
+  let text = log;
+  let lineMap = log.split("\n").map((_, i) => i);
+
+  if (options.stripNoise) {
+    const noise = filterNoise(text, options.rules ?? noiseRules);
+    for (const { line, rule } of noise.dropped) {
+      removals.push(noiseRemoval(lineMap[line], rule));
+    }
+    lineMap = noise.lineMap.map((line) => lineMap[line]);
+    text = noise.text;
+  }
+
+  const format = options.format ?? detectFormat(text);
+
+  if (options.minLevel) {
+    const levels = filterBelowLevel(text, options.minLevel, format);
+    for (const { line, rule } of levels.dropped) {
+      removals.push({
+        line: lineMap[line],
+        reason: "level",
+        rule,
+        detail: `${rule.toUpperCase()} is below the minimum level ${options.minLevel.toUpperCase()}`,
+      });
+    }
+    lineMap = levels.lineMap.map((line) => lineMap[line]);
+    text = levels.text;
+  }
+
+  const normalize = options.normalizationRules
+    ? createNormalizer(options.normalizationRules)
+    : normalizeErrorMessage;
+  const dedup = createDedupEngine({
+    ...dedupOptionsForFormat(format, normalize),
+    similarityThreshold: options.similarityThreshold,
+    ...options.dedup,
+  }).run(text);
+  const groups: ErrorGroup[] = [];
+  dedup.groups.forEach((group, blockIndex) => {
+    const occurrences = group.occurrences.map((occurrence) => mapRange(occurrence, lineMap));
+    groups.push({
+      fingerprint: group.fingerprint,
+      example: group.originalMessage,
+      count: group.count,
+      occurrences,
+      template: group.template,
+      ...groupMetadata(originalLines, occurrences, format),
+    });
+
+    const [duplicateOf] = occurrences;
+    const detail = group.template?.includes(WILDCARD)
+      ? `Similar to block ${blockIndex + 1} (${describeRange(duplicateOf)}), template "${group.template}"`
+      : `Duplicate of block ${blockIndex + 1} (${describeRange(duplicateOf)})`;
+    for (const repeat of group.occurrences.slice(1)) {
+      for (let i = repeat.startLine; i <= repeat.endLine; i++) {
+        removals.push({
+          line: lineMap[i],
+          reason: "duplicate",
+          detail,
+          duplicateOf,
+        });
+      }
+    }
+  });
+  lineMap = dedup.lineMap.map((line) => lineMap[line]);
+  text = dedup.output;
+
+  if (options.stripNoise) {
+    const blankRuns = filterBlankRuns(text);
+    for (const { line, rule } of blankRuns.dropped) {
+      removals.push(noiseRemoval(lineMap[line], rule));
+    }
+    lineMap = blankRuns.lineMap.map((line) => lineMap[line]);
+    text = blankRuns.text;
+  }
+
+  return { text, format, lineMap, removed: toRemovedRanges(removals), groups };
+}
+
+// Attributes every non-blank prepared line missing from the provider's
+// output to the model. Blank lines are not reported.
+export function buildCleanReport(prepared: PreparedLog, cleaned: string): CleanReport {
+  const preparedLines = prepared.text.split("\n");
+  const removals: LineRemoval[] = [];
+  let line = 0;
+
+  for (const part of diffLines(prepared.text, cleaned)) {
+    if (part.added) continue;
+
+    const count = part.count ?? part.value.replace(/\n$/, "").split("\n").length;
+    if (part.removed) {
+      for (let i = line; i < line + count; i++) {
+        if (preparedLines[i]?.trim()) {
+          removals.push({
+            line: prepared.lineMap[i],
+            reason: "non-critical",
+            detail: "Dropped by the model as non-critical",
+          });
+        }
+      }
+    }
+    line += count;
+  }
+
+  const removed = [...prepared.removed, ...toRemovedRanges(removals)]
+    .sort((a, b) => a.startLine - b.startLine);
+
+  return { removed, groups: prepared.groups };
+}
+
+// Puts a removed range of the original log back into the cleaned log, right
+// after the closest preceding original line that survived cleaning.
+export function restoreRange(originalLog: string, cleanedLog: string, range: LineRange): string {
+  const originalLines = originalLog.split("\n");
+  const cleanedLines = cleanedLog.split("\n");
+  const cleanedIndexOf = new Map<number, number>();
+  let original = 0;
+  let cleaned = 0;
+
+  for (const part of diffLines(originalLog, cleanedLog)) {
+    const count = part.count ?? part.value.replace(/\n$/, "").split("\n").length;
+    if (part.added) {
+      cleaned += count;
+    } else if (part.removed) {
+      original += count;
+    } else {
+      for (let i = 0; i < count; i++) cleanedIndexOf.set(original + i, cleaned + i);
+      original += count;
+      cleaned += count;
+    }
+  }
+
+  let insertAt = 0;
+  for (let line = range.startLine - 1; line >= 0; line--) {
+    const index = cleanedIndexOf.get(line);
+    if (index !== undefined) {
+      insertAt = index + 1;
+      break;
+    }
+  }
+
+  cleanedLines.splice(insertAt, 0, ...originalLines.slice(range.startLine, range.endLine + 1));
+  return cleanedLines.join("\n");
+}
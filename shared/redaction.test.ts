@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { redactLog, rehydrate } from "./redaction";
+
+describe("redactLog", () => {
+  it("replaces secrets with numbered placeholders and reuses them for repeated values", () => {
+    const { text, redactions } = redactLog(
+      "login alice@example.com password=hunter22\nlogin alice@example.com from 10.0.0.1",
+    );
+
+    expect(text).toBe(
+      "login [REDACTED_EMAIL_1] password=[REDACTED_CREDENTIAL_1]\nlogin [REDACTED_EMAIL_1] from [REDACTED_IP_ADDRESS_1]",
+    );
+    expect(redactions.map(({ rule, value }) => [rule, value])).toEqual([
+      ["credential", "hunter22"],
+      ["email", "alice@example.com"],
+      ["ip-address", "10.0.0.1"],
+    ]);
+  });
+
+  it("changes nothing when run on its own output", () => {
+    const once = redactLog("token=abcdef123456 postgres://u:p@db/app").text;
+    expect(redactLog(once).text).toBe(once);
+  });
+
+  it("redacts card numbers with a known issuer prefix, grouped or not", () => {
+    const { text } = redactLog("visa 4111 1111 1111 1111, mc 5555555555554444, amex 3782-822463-10005");
+    expect(text).toBe(
+      "visa [REDACTED_CREDIT_CARD_1], mc [REDACTED_CREDIT_CARD_2], amex [REDACTED_CREDIT_CARD_3]",
+    );
+  });
+
+  it("leaves epoch timestamps alone even when they pass the Luhn check", () => {
+    // 1700000000004 passes the Luhn check but no card network issues numbers starting with 1.
+    expect(redactLog('{"time":1700000000004,"msg":"ok"}').redactions).toEqual([]);
+    expect(redactLog('{"time":4111111111111111}').redactions).toEqual([]);
+  });
+
+  it("leaves digit runs that fail the Luhn check alone", () => {
+    expect(redactLog("order 4111111111111112").redactions).toEqual([]);
+  });
+});
+
+describe("rehydrate", () => {
+  it("puts the original values back", () => {
+    const log = "user bob@example.com token=s3cr3t-value";
+    const { text, redactions } = redactLog(log);
+    expect(rehydrate(text, redactions)).toBe(log);
+  });
+});
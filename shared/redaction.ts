@@ -0,0 +1,163 @@
+export interface RedactionRule {
+  name: string;
+  description: string;
+  // Must be global. Matches never span lines, so redaction keeps line numbers intact.
+  pattern: RegExp;
+  // Rejects matches that only look like a secret, e.g. numbers failing the
+  // Luhn check. Gets the text the match was found in and its offset there.
+  validate?: (match: string, offset: number, text: string) => boolean;
+}
+
+export interface Redaction {
+  placeholder: string;
+  rule: string;
+  value: string;
+}
+
+export interface RedactionResult {
+  text: string;
+  redactions: Redaction[];
+}
+
+const PLACEHOLDER = /\[REDACTED_[A-Z_]+_\d+\]/;
+
+function passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, "");
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Issuer prefixes and the number lengths each network issues: Visa,
+// Mastercard, American Express, Discover, Diners Club, JCB and UnionPay.
+const CARD_NETWORKS: { prefix: RegExp; lengths: number[] }[] = [
+  { prefix: /^4/, lengths: [13, 16, 19] },
+  { prefix: /^(?:5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d\d|27[01]\d|2720)/, lengths: [16] },
+  { prefix: /^3[47]/, lengths: [15] },
+  { prefix: /^(?:6011|65|64[4-9])/, lengths: [16, 17, 18, 19] },
+  { prefix: /^3(?:0[0-5]|[689])/, lengths: [14, 15, 16, 17, 18, 19] },
+  { prefix: /^35/, lengths: [16, 17, 18, 19] },
+  { prefix: /^62/, lengths: [16, 17, 18, 19] },
+];
+
+// Epoch times are long digit runs too; pino's "time", for one, is in milliseconds.
+const TIMESTAMP_KEY = /(?:^|[^\w])["']?(?:ts|time|timestamp|date|[\w-]*_(?:at|ts|time))["']?\s*[:=]\s*["']?$/i;
+
+function isCardNumber(match: string, offset: number, text: string): boolean {
+  const digits = match.replace(/\D/g, "");
+  // Printed card numbers use one kind of separator, if any.
+  if (/ /.test(match) && /-/.test(match)) return false;
+  if (!CARD_NETWORKS.some(({ prefix, lengths }) => prefix.test(digits) && lengths.includes(digits.length))) {
+    return false;
+  }
+  if (TIMESTAMP_KEY.test(text.slice(Math.max(0, offset - 40), offset))) return false;
+  return passesLuhn(digits);
+}
+
+// Applied in order; the specific formats come before the generic ones so
+// that, for example, a connection string is not redacted as an email.
+export const redactionRules: RedactionRule[] = [
+  {
+    name: "connection-string",
+    description: "Database and broker URLs, which usually embed credentials",
+    pattern: /\b(?:postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|rediss?|amqps?|mssql|sqlserver|jdbc:[a-z]+):\/\/[^\s'"<>]+/gi,
+  },
+  {
+    name: "jwt",
+    description: "JSON Web Tokens",
+    pattern: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]+/g,
+  },
+  {
+    name: "bearer-token",
+    description: "Bearer and Basic authorization credentials",
+    pattern: /(?<=\b(?:Bearer|Basic)\s+)[A-Za-z0-9\-._~+\/]{8,}=*/gi,
+  },
+  {
+    name: "aws-access-key",
+    description: "AWS access key IDs",
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    name: "aws-secret-key",
+    description: "AWS secret access keys",
+    pattern: /(?<=aws_secret_access_key["']?\s*[=:]\s*["']?)[A-Za-z0-9\/+=]{40}/gi,
+  },
+  {
+    name: "api-key",
+    description: "API keys with a well-known prefix (OpenAI, Anthropic, GitHub, Slack, Google, Stripe)",
+    pattern:
+      /\b(?:sk-(?:proj-|ant-)?[A-Za-z0-9_\-]{20,}|gh[pousr]_[A-Za-z0-9]{36,}|xox[abposr]-[A-Za-z0-9-]{10,}|AIza[0-9A-Za-z_\-]{35}|[sr]k_live_[0-9A-Za-z]{24,})/g,
+  },
+  {
+    name: "credential",
+    description: "Values of password, secret, token and API key fields",
+    pattern: /(?<=\b(?:api[_-]?key|apikey|secret|token|password|passwd|pwd)["']?\s*[=:]\s*["']?)[^\s"',;&]{6,}/gi,
+  },
+  {
+    name: "email",
+    description: "Email addresses",
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    name: "credit-card",
+    description: "Payment card numbers with a known issuer prefix that pass the Luhn check",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: isCardNumber,
+  },
+  {
+    name: "ip-address",
+    description: "IPv4 and full-form IPv6 addresses",
+    pattern: /\b(?:25[0-5]|2[0-4]\d|1?\d?\d)(?:\.(?:25[0-5]|2[0-4]\d|1?\d?\d)){3}\b|\b(?:[0-9a-f]{1,4}:){7}[0-9a-f]{1,4}\b/gi,
+  },
+];
+
+// Placeholders look like "[REDACTED_EMAIL_1]". The same value always gets
+// the same placeholder, so redacted lines still deduplicate, and matches
+// containing a placeholder are left alone, so redacting twice changes nothing.
+export function redactLog(log: string, rules: RedactionRule[] = redactionRules): RedactionResult {
+  const redactions: Redaction[] = [];
+  const byValue = new Map<string, Redaction>();
+  const perRule = new Map<string, number>();
+
+  let text = log;
+  for (const rule of rules) {
+    text = text.replace(rule.pattern, (match: string, ...args: unknown[]) => {
+      // After any captures come the offset, the whole text and, with named groups, the groups.
+      const at = args.findIndex((arg) => typeof arg === "number");
+      const offset = args[at] as number;
+      const source = args[at + 1] as string;
+      if (PLACEHOLDER.test(match) || (rule.validate && !rule.validate(match, offset, source))) return match;
+
+      const key = `${rule.name}\u0000${match}`;
+      let redaction = byValue.get(key);
+      if (!redaction) {
+        const index = (perRule.get(rule.name) ?? 0) + 1;
+        perRule.set(rule.name, index);
+        redaction = {
+          placeholder: `[REDACTED_${rule.name.toUpperCase().replace(/-/g, "_")}_${index}]`,
+          rule: rule.name,
+          value: match,
+        };
+        byValue.set(key, redaction);
+        redactions.push(redaction);
+      }
+      return redaction.placeholder;
+    });
+  }
+
+  return { text, redactions };
+}
+
+// Puts the original values back in place of their placeholders.
+export function rehydrate(text: string, redactions: Redaction[]): string {
+  if (redactions.length === 0) return text;
+  const values = new Map(redactions.map((redaction) => [redaction.placeholder, redaction.value]));
+  return text.replace(new RegExp(PLACEHOLDER.source, "g"), (placeholder) => values.get(placeholder) ?? placeholder);
+}
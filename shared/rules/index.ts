@@ -0,0 +1,17 @@
+import { prepareLog } from "../pipeline";
+import type { DedupOptions } from "../dedup";
+import type { NoiseRule } from "./noise";
+
+export * from "./noise";
+
+export interface RulesCleanOptions {
+  rules?: NoiseRule[];
+  dedup?: DedupOptions;
+}
+
+// Noise is stripped before deduplication so that lines differing only by
+// color codes or redraws are fingerprinted the same. Blank runs are collapsed
+// last because deduplication leaves a blank line behind for every merged block.
+export function cleanWithRules(log: string, options: RulesCleanOptions = {}): string {
+  return prepareLog(log, { ...options, stripNoise: true }).text;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { filterNoise, stripNoise } from "./noise";
+
+describe("verbose-level rule", () => {
+  it.each([
+    "2024-01-01 10:00:00 DEBUG cache warm",
+    "[TRACE] entering handler",
+    "VERBOSE: loaded 3 plugins",
+    'time=10:00 level=debug msg="cache warm"',
+    '{"level":"TRACE","msg":"entering handler"}',
+  ])("drops %s", (line) => {
+    expect(stripNoise(line)).toBe("");
+  });
+
+  it.each([
+    "ERROR Payment failed, full stack trace below",
+    "ERROR could not attach debug symbols",
+    "WARN trace sampling disabled",
+    "WARN retrying with DEBUG logging enabled",
+    "2024-01-01 10:00:00 ERROR [worker] TRACE id missing",
+    "level=error msg=\"debug endpoint failed\"",
+  ])("keeps %s", (line) => {
+    expect(stripNoise(line)).toBe(line);
+  });
+
+  it("reports the dropped line and the rule that dropped it", () => {
+    const result = filterNoise("INFO start\nDEBUG detail\nERROR boom");
+    expect(result.text).toBe("INFO start\nERROR boom");
+    expect(result.lineMap).toEqual([0, 2]);
+    expect(result.dropped).toEqual([{ line: 1, rule: "verbose-level" }]);
+  });
+});
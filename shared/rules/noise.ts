@@ -0,0 +1,109 @@
+export interface NoiseRule {
+  name: string;
+  description: string;
+  // Returns the rewritten line, or null to drop it.
+  apply(line: string): string | null;
+}
+
+const ANSI_PATTERN = /\x1b(?:\[[0-9;?]*[ -\/]*[@-~]|\][^\x07\x1b]*(?:\x07|\x1b\\)|[@-Z\\-_])/g;
+const PROGRESS_BAR_PATTERN = /\[[=#>\-.\s]{5,}\]|[█▉▊▋▌▍▎▏░▒▓]{3,}|\d{1,3}(?:\.\d+)?%\s*\|/;
+const HEARTBEAT_PATTERN = /\b(?:heartbeat|health[- ]?check|keep-?alive|ping|pong)\b/i;
+const FAILURE_PATTERN = /\b(?:error|fail(?:ed|ure)?|timed? ?out|exception|refused|unreachable)\b/i;
+// Only an upper-case token counts as a level, and only the first one in the
+// line, so "ERROR ... full stack trace below" or "WARN ... DEBUG" stay.
+const LEVEL_TOKEN_PATTERN =
+  /(?:^|[\s\[(<|])(DEBUG|TRACE|VERBOSE|INFO|NOTICE|WARN(?:ING)?|ERROR|ERR|SEVERE|CRITICAL|FATAL)(?=[\])>|:\s]|$)/;
+const VERBOSE_LEVELS = new Set(["DEBUG", "TRACE", "VERBOSE"]);
+const VERBOSE_FIELD_PATTERN = /\blevel=["']?(?:debug|trace)\b|"level"\s*:\s*"(?:debug|trace)"/i;
+
+function isVerbose(line: string): boolean {
+  if (VERBOSE_FIELD_PATTERN.test(line)) return true;
+  const token = line.match(LEVEL_TOKEN_PATTERN);
+  return token !== null && VERBOSE_LEVELS.has(token[1]);
+}
+
+export const noiseRules: NoiseRule[] = [
+  {
+    name: "ansi",
+    description: "Strip ANSI color and cursor escape codes",
+    apply: (line) => line.replace(ANSI_PATTERN, ""),
+  },
+  {
+    name: "carriage-return",
+    description: "Keep only the final state of lines redrawn with carriage returns",
+    apply: (line) => {
+      const segments = line.replace(/\r+$/, "").split("\r");
+      return segments[segments.length - 1];
+    },
+  },
+  {
+    name: "progress-bar",
+    description: "Drop progress bar and percentage-only lines",
+    apply: (line) =>
+      PROGRESS_BAR_PATTERN.test(line) || /^\s*\d{1,3}(?:\.\d+)?%\s*$/.test(line) ? null : line,
+  },
+  {
+    name: "heartbeat",
+    description: "Drop heartbeat, keep-alive and health-check lines that do not report a failure",
+    apply: (line) => (HEARTBEAT_PATTERN.test(line) && !FAILURE_PATTERN.test(line) ? null : line),
+  },
+  {
+    name: "verbose-level",
+    description: "Drop DEBUG and TRACE level lines",
+    apply: (line) => (isVerbose(line) ? null : line),
+  },
+];
+
+export interface LineFilterResult {
+  text: string;
+  // For every line of the output, the input line it was taken from.
+  lineMap: number[];
+  dropped: { line: number; rule: string }[];
+}
+
+export function filterNoise(log: string, rules: NoiseRule[] = noiseRules): LineFilterResult {
+  const kept: string[] = [];
+  const lineMap: number[] = [];
+  const dropped: LineFilterResult["dropped"] = [];
+
+  log.split("\n").forEach((line, i) => {
+    let current: string | null = line;
+    for (const rule of rules) {
+      current = rule.apply(current);
+      if (current === null) {
+        dropped.push({ line: i, rule: rule.name });
+        return;
+      }
+    }
+    kept.push(current);
+    lineMap.push(i);
+  });
+
+  return { text: kept.join("\n"), lineMap, dropped };
+}
+
+export function stripNoise(log: string, rules: NoiseRule[] = noiseRules): string {
+  return filterNoise(log, rules).text;
+}
+
+export function filterBlankRuns(log: string): LineFilterResult {
+  const lines: string[] = [];
+  const lineMap: number[] = [];
+  const dropped: LineFilterResult["dropped"] = [];
+
+  log.split("\n").forEach((line, i) => {
+    const isBlank = line.trim() === "";
+    if (isBlank && lines.length > 0 && lines[lines.length - 1] === "") {
+      dropped.push({ line: i, rule: "blank-run" });
+      return;
+    }
+    lines.push(isBlank ? "" : line);
+    lineMap.push(i);
+  });
+
+  return { text: lines.join("\n"), lineMap, dropped };
+}
+
+export function collapseBlankRuns(log: string): string {
+  return filterBlankRuns(log).text;
+}
@@ -1,11 +1,24 @@
-import { pgTable, text, serial } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isBuiltInRule } from "./dedup/normalize";
+import { unsafePatternReason } from "./dedup/safe-regex";
 
 export const logs = pgTable("logs", {
   id: serial("id").primaryKey(),
   originalContent: text("original_content").notNull(),
   cleanedContent: text("cleaned_content").notNull(),
+  originalSize: integer("original_size").notNull().default(0),
+  cleanedSize: integer("cleaned_size").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One ProGuard/R8 mapping per project, replaced on every upload.
+export const proguardMappings = pgTable("proguard_mappings", {
+  project: text("project").primaryKey(),
+  content: text("content").notNull(),
+  size: integer("size").notNull().default(0),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 export const insertLogSchema = createInsertSchema(logs).pick({
@@ -13,10 +26,240 @@ export const insertLogSchema = createInsertSchema(logs).pick({
   cleanedContent: true,
 });
 
+export const providerNameSchema = z.enum(["openai", "openai-compatible", "anthropic", "rules"]);
+
+export const cleanModeSchema = z.enum(["ai", "rules"]);
+
+function isValidRegex(pattern: string, flags: string): boolean {
+  try {
+    new RegExp(pattern, flags);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A mask applied to messages before they are compared for deduplication.
+// Rules run on the server, so patterns other than the built-in ones must
+// stay within the restricted syntax of unsafePatternReason.
+export const normalizationRuleSchema = z
+  .object({
+    name: z.string().trim().min(1),
+    pattern: z.string().min(1),
+    flags: z.string().regex(/^[gimsu]*$/, "Flags may only contain g, i, m, s and u").default(""),
+    replacement: z.string(),
+    enabled: z.boolean().default(true),
+  })
+  .superRefine((rule, ctx) => {
+    if (!isValidRegex(rule.pattern, rule.flags)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Invalid regular expression", path: ["pattern"] });
+      return;
+    }
+    const unsafe = isBuiltInRule(rule) ? undefined : unsafePatternReason(rule.pattern);
+    if (unsafe) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: unsafe, path: ["pattern"] });
+    }
+  });
+
+// Lowest first.
+export const severityLevelSchema = z.enum(["trace", "debug", "info", "warn", "error", "fatal"]);
+
+export const logFormatSchema = z.enum(["text", "json", "logfmt", "syslog", "clf"]);
+
+export const projectNameSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(100)
+  .regex(/^[\w.-]+$/, "Project names may only contain letters, digits, '.', '_' and '-'");
+
+export const sourceMapFileSchema = z.object({
+  name: z.string().min(1),
+  content: z.string().min(1),
+});
+
 export const cleanLogRequestSchema = z.object({
-  log: z.string().min(1, "Log content is required")
+  log: z.string().min(1, "Log content is required"),
+  mode: cleanModeSchema.default("ai"),
+  // Detected from the log when omitted.
+  format: logFormatSchema.optional(),
+  // Replaces the default fingerprint normalization rules when given.
+  normalizationRules: z.array(normalizationRuleSchema).max(100).optional(),
+  // Groups near-duplicates sharing at least this share of tokens; exact matching when omitted.
+  similarityThreshold: z.number().min(0).max(1).optional(),
+  // Lines classified below this level are dropped before cleaning.
+  minLevel: severityLevelSchema.optional(),
+  // Masks secrets and personal data before the log is stored or sent to a provider.
+  redact: z.boolean().default(true),
+  // Used to rewrite minified JavaScript stack frames before deduplication.
+  sourceMaps: z.array(sourceMapFileSchema).max(200).default([]),
+  // Obfuscated Java/Kotlin frames are retraced with this project's stored mapping.
+  project: projectNameSchema.optional(),
+  // Replaces the project's stored mapping, or is used once when no project is given.
+  proguardMapping: z.string().min(1).optional(),
+  provider: providerNameSchema.optional(),
+  model: z.string().min(1).optional(),
+});
+
+export const lineRangeSchema = z.object({
+  startLine: z.number().int().min(0),
+  endLine: z.number().int().min(0),
+});
+
+export const removalReasonSchema = z.enum(["duplicate", "non-critical", "noise", "level"]);
+
+// Line numbers are zero-based indexes into the original log.
+export const removedRangeSchema = lineRangeSchema.extend({
+  reason: removalReasonSchema,
+  detail: z.string(),
+  rule: z.string().optional(),
+  duplicateOf: lineRangeSchema.optional(),
+});
+
+export const errorGroupSchema = z.object({
+  fingerprint: z.string(),
+  example: z.string(),
+  count: z.number().int().positive(),
+  occurrences: z.array(lineRangeSchema),
+  // Set when near-duplicates were clustered; <*> marks the differing tokens.
+  template: z.string().optional(),
+  level: severityLevelSchema.optional(),
+  // Timestamps of the first and last occurrence, as written in the log.
+  firstSeen: z.string().optional(),
+  lastSeen: z.string().optional(),
+});
+
+// A masked value, identified by its placeholder; the value itself is never returned.
+export const redactionEntrySchema = z.object({
+  placeholder: z.string(),
+  rule: z.string(),
+});
+
+export const chunkStatusSchema = lineRangeSchema.extend({
+  index: z.number().int().min(0),
+  inputSize: z.number().int().min(0),
+  outputSize: z.number().int().min(0),
+  status: z.enum(["cleaned", "failed"]),
+  error: z.string().optional(),
+});
+
+export const cleanLogResultSchema = z.object({
+  id: z.number().int(),
+  // The log that line numbers refer to: the request's log after redaction,
+  // symbolication and retracing.
+  input: z.string(),
+  cleaned: z.string(),
+  // The log after the deterministic stages, as it was sent to the provider.
+  deduplicated: z.string(),
+  removed: z.array(removedRangeSchema),
+  groups: z.array(errorGroupSchema),
+  chunks: z.array(chunkStatusSchema),
+  redactions: z.array(redactionEntrySchema),
+  meta: z.object({
+    mode: cleanModeSchema,
+    format: logFormatSchema,
+    provider: providerNameSchema,
+    model: z.string(),
+    symbolicatedFrames: z.number().int().min(0),
+    retracedFrames: z.number().int().min(0),
+    durationMs: z.number().min(0),
+    // Set when AI cleaning was asked for but the server had no AI provider.
+    fallbackReason: z.string().optional(),
+  }),
+});
+
+// Server-sent events of a streamed /api/clean-log request, in the order sent.
+export const cleanLogEventSchema = z.discriminatedUnion("event", [
+  z.object({ event: z.literal("start"), data: z.object({ totalChunks: z.number().int().min(0) }) }),
+  z.object({ event: z.literal("delta"), data: z.object({ index: z.number().int().min(0), text: z.string() }) }),
+  z.object({ event: z.literal("chunk"), data: chunkStatusSchema.extend({ cleaned: z.string() }) }),
+  z.object({ event: z.literal("done"), data: cleanLogResultSchema }),
+  z.object({ event: z.literal("error"), data: z.object({ error: z.string() }) }),
+]);
+
+// A deduplicated event on the live tail; repeats update it in place by id.
+export const liveEventSchema = z.object({
+  id: z.number().int().positive(),
+  text: z.string(),
+  count: z.number().int().positive(),
+  level: severityLevelSchema.optional(),
+  // ISO timestamps of when the server received the first and latest repeat.
+  firstSeen: z.string(),
+  lastSeen: z.string(),
+});
+
+export const liveSourceSchema = z.enum(["feed", "file"]);
+
+export const liveMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("snapshot"), sources: z.array(liveSourceSchema), events: z.array(liveEventSchema) }),
+  z.object({ type: z.literal("event"), event: liveEventSchema }),
+  z.object({ type: z.literal("evict"), id: z.number().int().positive() }),
+  z.object({ type: z.literal("error"), message: z.string() }),
+]);
+
+export const projectParamSchema = z.object({
+  project: projectNameSchema,
+});
+
+export const uploadMappingSchema = z.object({
+  mapping: z.string().min(1),
+});
+
+export const logIdParamSchema = z.object({
+  id: z.coerce.number().int().positive("Log id must be a positive integer"),
+});
+
+export const streamDedupQuerySchema = z.object({
+  // Seconds during which repeats of an event are suppressed.
+  window: z.coerce.number().positive().default(30),
+  maxFingerprints: z.coerce.number().int().positive().optional(),
+  format: logFormatSchema.optional(),
+  minLevel: severityLevelSchema.optional(),
+});
+
+export const listLogsQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+  order: z.enum(["asc", "desc"]).default("desc"),
 });
 
 export type InsertLog = z.infer<typeof insertLogSchema>;
 export type Log = typeof logs.$inferSelect;
+export type ProguardMapping = typeof proguardMappings.$inferSelect;
+export type ProguardMappingInfo = Omit<ProguardMapping, "content">;
+export type LogSummary = Omit<Log, "originalContent" | "cleanedContent"> & {
+  preview: string;
+};
+export type ProviderName = z.infer<typeof providerNameSchema>;
+export type CleanMode = z.infer<typeof cleanModeSchema>;
+export type LogFormatName = z.infer<typeof logFormatSchema>;
+export type NormalizationRule = z.infer<typeof normalizationRuleSchema>;
+export type SourceMapFile = z.infer<typeof sourceMapFileSchema>;
 export type CleanLogRequest = z.infer<typeof cleanLogRequestSchema>;
+export type ListLogsQuery = z.infer<typeof listLogsQuerySchema>;
+export type LineRange = z.infer<typeof lineRangeSchema>;
+export type RemovalReason = z.infer<typeof removalReasonSchema>;
+export type RemovedRange = z.infer<typeof removedRangeSchema>;
+export type SeverityLevel = z.infer<typeof severityLevelSchema>;
+export type ErrorGroup = z.infer<typeof errorGroupSchema>;
+export type RedactionEntry = z.infer<typeof redactionEntrySchema>;
+export type ChunkStatus = z.infer<typeof chunkStatusSchema>;
+export type CleanLogResult = z.infer<typeof cleanLogResultSchema>;
+export type CleanLogEvent = z.infer<typeof cleanLogEventSchema>;
+export type LiveEvent = z.infer<typeof liveEventSchema>;
+export type LiveSource = z.infer<typeof liveSourceSchema>;
+export type LiveMessage = z.infer<typeof liveMessageSchema>;
+
+export interface ProviderInfo {
+  name: ProviderName;
+  model: string | null;
+  available: boolean;
+  default: boolean;
+}
+
+export interface LogPage {
+  logs: LogSummary[];
+  total: number;
+  limit: number;
+  offset: number;
+}
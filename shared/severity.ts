@@ -0,0 +1,61 @@
+import { parseRecord, toSeverity } from "./formats";
+import type { LineFilterResult } from "./rules/noise";
+import { severityLevelSchema, type LogFormatName, type SeverityLevel } from "./schema";
+
+// Lowest first.
+export const SEVERITY_LEVELS = severityLevelSchema.options;
+
+// Keyword heuristics for lines that carry no explicit level, most severe first.
+const SEVERITY_HINTS: [SeverityLevel, RegExp][] = [
+  ["fatal", /\b(?:fatal|panic(?:ked)?|segmentation fault|out of memory|core dumped|oom-?killed)\b/i],
+  ["error", /\b(?:error|exception|fail(?:ed|ure|s)?|traceback|unhandled|refused|denied|cannot|could not)\b/i],
+  ["warn", /\b(?:warn(?:ing)?|deprecated|retry(?:ing)?|timed out|timeout)\b/i],
+];
+
+// Stack frames and other lines that belong to the event above them.
+const CONTINUATION = /^\s+\S|^(?:Caused by|Suppressed):|^\.\.\. \d+ more/;
+
+export function severityRank(level: SeverityLevel): number {
+  return SEVERITY_LEVELS.indexOf(level);
+}
+
+// Classifies a single line on its own: its explicit level if it has one,
+// otherwise the first matching keyword heuristic.
+export function classifyLine(line: string, format: LogFormatName = "text"): SeverityLevel | undefined {
+  const explicit = toSeverity(parseRecord(format, line).level);
+  if (explicit) return explicit;
+  return SEVERITY_HINTS.find(([, pattern]) => pattern.test(line))?.[0];
+}
+
+// The level of every line. Continuation lines share the level of the event
+// they belong to; lines that cannot be classified are undefined.
+export function lineSeverities(log: string, format: LogFormatName = "text"): (SeverityLevel | undefined)[] {
+  let current: SeverityLevel | undefined;
+  return log.split("\n").map((line) => {
+    if (line.trim() === "") return undefined;
+    const own = classifyLine(line, format);
+    if (own || !CONTINUATION.test(line)) current = own;
+    return own ?? current;
+  });
+}
+
+// Drops the lines classified below `minLevel`. Unclassified lines are kept,
+// since there is no telling what they are.
+export function filterBelowLevel(log: string, minLevel: SeverityLevel, format: LogFormatName = "text"): LineFilterResult {
+  const severities = lineSeverities(log, format);
+  const kept: string[] = [];
+  const lineMap: number[] = [];
+  const dropped: LineFilterResult["dropped"] = [];
+
+  log.split("\n").forEach((line, i) => {
+    const level = severities[i];
+    if (level && severityRank(level) < severityRank(minLevel)) {
+      dropped.push({ line: i, rule: level });
+      return;
+    }
+    kept.push(line);
+    lineMap.push(i);
+  });
+
+  return { text: kept.join("\n"), lineMap, dropped };
+}
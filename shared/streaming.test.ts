@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { streamDedup } from "./streaming";
+
+// An input that yields chunks as the test sends them and ends on request.
+function controlledInput() {
+  const chunks: (string | null)[] = [];
+  let wake: (() => void) | undefined;
+  const send = (chunk: string | null) => {
+    chunks.push(chunk);
+    wake?.();
+  };
+  async function* input() {
+    for (;;) {
+      while (chunks.length === 0) await new Promise<void>((resolve) => (wake = resolve));
+      const chunk = chunks.shift()!;
+      if (chunk === null) return;
+      yield chunk;
+    }
+  }
+  return { input: input(), send };
+}
+
+describe("streamDedup", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("deduplicates a log timed by its own timestamps", async () => {
+    const lines: string[] = [];
+    const log = [
+      "2024-01-01T00:00:00Z ERROR db down",
+      "2024-01-01T00:00:10Z ERROR db down",
+      "2024-01-01T00:01:00Z ERROR db down",
+      "",
+    ].join("\n");
+    const stats = await streamDedup([log], { windowMs: 30_000 }, (line) => lines.push(line));
+
+    expect(lines).toEqual([
+      "2024-01-01T00:00:00Z ERROR db down",
+      "2024-01-01T00:00:00Z ERROR db down … repeated 1 time in 10s",
+      "2024-01-01T00:01:00Z ERROR db down",
+    ]);
+    expect(stats).toMatchObject({ events: 3, written: 2, suppressed: 1, summaries: 1 });
+  });
+
+  it("writes the pending event and closes ended windows while the input is idle", async () => {
+    vi.useFakeTimers();
+    const lines: string[] = [];
+    const { input, send } = controlledInput();
+    const done = streamDedup(input, { windowMs: 2000 }, (line) => lines.push(line));
+
+    send("ERROR boom\nERROR boom\n");
+    await vi.advanceTimersByTimeAsync(0);
+    expect(lines).toEqual(["ERROR boom"]);
+
+    send("WARN last line\n");
+    await vi.advanceTimersByTimeAsync(300);
+    expect(lines).toEqual(["ERROR boom", "WARN last line"]);
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(lines).toEqual(["ERROR boom", "WARN last line", "ERROR boom … repeated 1 time in 0ms"]);
+
+    send(null);
+    await done;
+    expect(vi.getTimerCount()).toBe(0);
+  });
+});
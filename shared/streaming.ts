@@ -0,0 +1,119 @@
+import { createEventSplitter, createStreamingDedupEngine, type StreamingOutput } from "./dedup";
+import { detectFormat, eventFingerprint, parseRecord } from "./formats";
+import { lineSeverities, severityRank } from "./severity";
+import { parseTimestamp } from "./timeline";
+import type { LogFormatName, SeverityLevel } from "./schema";
+
+// A pending event is emitted once no input arrives for this long.
+const EVENT_IDLE_MS = 250;
+// How often ended windows are summarized while the input stays idle.
+const EXPIRE_INTERVAL_MS = 1000;
+
+export interface StreamDedupOptions {
+  // Detected per event when not set.
+  format?: LogFormatName;
+  minLevel?: SeverityLevel;
+  windowMs?: number;
+  maxFingerprints?: number;
+}
+
+export interface StreamStats {
+  events: number;
+  written: number;
+  suppressed: number;
+  summaries: number;
+  droppedBelowLevel: number;
+  // The most severe level seen in the input, dropped events included.
+  highestLevel?: SeverityLevel;
+}
+
+function ownTime(first: string, format: LogFormatName): number | undefined {
+  const timestamp = parseRecord(format, first).timestamp;
+  return timestamp === undefined ? undefined : parseTimestamp(timestamp);
+}
+
+function highestOf(levels: (SeverityLevel | undefined)[]): SeverityLevel | undefined {
+  return levels.reduce<SeverityLevel | undefined>(
+    (highest, level) => (level && (!highest || severityRank(level) > severityRank(highest)) ? level : highest),
+    undefined,
+  );
+}
+
+// Deduplicates the input one event at a time, writing each event as soon as
+// it is complete, so memory use does not grow with the length of the input.
+export async function streamDedup(
+  input: AsyncIterable<string | Uint8Array>,
+  options: StreamDedupOptions,
+  write: (line: string) => void,
+): Promise<StreamStats> {
+  const splitter = createEventSplitter();
+  const engine = createStreamingDedupEngine({
+    fingerprint: (event) => eventFingerprint(event),
+    windowMs: options.windowMs,
+    maxFingerprints: options.maxFingerprints,
+  });
+  const stats: StreamStats = { events: 0, written: 0, suppressed: 0, summaries: 0, droppedBelowLevel: 0 };
+  // Events are timed by their own timestamps, so a saved log replays with its
+  // original timing. Between timestamps the clock runs on from the last one
+  // in real time, which times events without one and lets windows close
+  // while the input is quiet. It starts at zero, before any log time.
+  let anchor = 0;
+  let anchoredAt = Date.now();
+  const now = () => anchor + Date.now() - anchoredAt;
+
+  const emit = (output: StreamingOutput[]) => {
+    output.forEach(({ kind, text }) => {
+      write(text);
+      if (kind === "summary") stats.summaries++;
+      else stats.written++;
+    });
+  };
+
+  const handle = (event: string) => {
+    const [first] = event.split("\n", 1);
+    const format = options.format ?? detectFormat(first);
+    stats.events++;
+
+    const level = highestOf(lineSeverities(event, format));
+    stats.highestLevel = highestOf([stats.highestLevel, level]);
+    if (options.minLevel && level && severityRank(level) < severityRank(options.minLevel)) {
+      stats.droppedBelowLevel++;
+      return;
+    }
+
+    const time = ownTime(first, format);
+    if (time !== undefined) {
+      anchor = time;
+      anchoredAt = Date.now();
+    }
+    const { suppressed, output } = engine.push(event, now());
+    if (suppressed) stats.suppressed++;
+    emit(output);
+  };
+
+  // While no input arrives, the pending event is emitted and windows that
+  // have ended are summarized, as live-tail does for its feeds.
+  let idleTimer: NodeJS.Timeout | undefined;
+  const whenIdle = () => {
+    splitter.flushPending().forEach(handle);
+    emit(engine.expire(now()).output);
+    idleTimer = setTimeout(whenIdle, EXPIRE_INTERVAL_MS);
+  };
+
+  // Decoded as a stream, so characters split across chunks survive.
+  const decoder = new TextDecoder();
+  try {
+    for await (const chunk of input) {
+      clearTimeout(idleTimer);
+      splitter.push(typeof chunk === "string" ? chunk : decoder.decode(chunk, { stream: true })).forEach(handle);
+      idleTimer = setTimeout(whenIdle, EVENT_IDLE_MS);
+    }
+  } finally {
+    clearTimeout(idleTimer);
+  }
+  splitter.push(decoder.decode()).forEach(handle);
+  splitter.end().forEach(handle);
+  emit(engine.flush().output);
+
+  return stats;
+}
@@ -0,0 +1,136 @@
+import { parseRecord, toSeverity } from "./formats";
+import type { ErrorGroup, LogFormatName } from "./schema";
+
+export type TimelineSplit = "severity" | "template";
+
+export interface TimeWindow {
+  // Milliseconds since the epoch; `end` is exclusive.
+  start: number;
+  end: number;
+}
+
+export interface TimelineBucket extends TimeWindow {
+  counts: Record<string, number>;
+}
+
+export interface Timeline {
+  buckets: TimelineBucket[];
+  // Series names in stacking order.
+  series: string[];
+}
+
+export const UNKNOWN_SERIES = "unknown";
+export const OTHER_SERIES = "other";
+
+const BUCKET_SIZES = [
+  1, 5, 10, 30, 60, 5 * 60, 10 * 60, 30 * 60, 3600, 3 * 3600, 6 * 3600, 12 * 3600, 86400, 7 * 86400,
+].map((seconds) => seconds * 1000);
+
+const MAX_TEMPLATE_SERIES = 5;
+
+// Accepts ISO 8601 and syslog timestamps, Apache's "10/Oct/2000:13:55:36 -0700"
+// and epoch seconds or milliseconds.
+export function parseTimestamp(timestamp: string): number | undefined {
+  if (/^\d{10}(?:\.\d+)?$/.test(timestamp)) return Number(timestamp) * 1000;
+  if (/^\d{13}$/.test(timestamp)) return Number(timestamp);
+
+  const apache = timestamp.match(/^(\d{2})\/(\w{3})\/(\d{4}):(\d{2}:\d{2}:\d{2})(?: ([+-]\d{4}))?$/);
+  const text = apache ? `${apache[1]} ${apache[2]} ${apache[3]} ${apache[4]} ${apache[5] ?? ""}` : timestamp;
+  const time = Date.parse(text);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+// The time of every line. Lines without a timestamp of their own, such as
+// stack frames, take the time of the closest line above them.
+export function lineTimes(log: string, format: LogFormatName): (number | undefined)[] {
+  let current: number | undefined;
+  return log.split("\n").map((line) => {
+    const timestamp = parseRecord(format, line).timestamp;
+    const time = timestamp === undefined ? undefined : parseTimestamp(timestamp);
+    if (time !== undefined) current = time;
+    return current;
+  });
+}
+
+export function isInWindow(time: number | undefined, window: TimeWindow): boolean {
+  return time !== undefined && time >= window.start && time < window.end;
+}
+
+function seriesPerLine(
+  lines: string[],
+  format: LogFormatName,
+  groups: ErrorGroup[],
+  splitBy: TimelineSplit,
+): { names: string[]; seriesOf: (line: number) => string } {
+  if (splitBy === "severity") {
+    const groupLevel: (string | undefined)[] = [];
+    for (const group of groups) {
+      for (const { startLine, endLine } of group.occurrences) {
+        for (let i = startLine; i <= endLine; i++) groupLevel[i] = group.level;
+      }
+    }
+    return {
+      names: ["fatal", "error", "warn", "info", "debug", "trace", UNKNOWN_SERIES],
+      seriesOf: (line) =>
+        toSeverity(parseRecord(format, lines[line]).level) ?? groupLevel[line] ?? UNKNOWN_SERIES,
+    };
+  }
+
+  // Only the most frequent templates get a series of their own.
+  const top = [...groups].sort((a, b) => b.count - a.count).slice(0, MAX_TEMPLATE_SERIES);
+  const templateOf: string[] = [];
+  for (const group of top) {
+    for (const { startLine, endLine } of group.occurrences) {
+      for (let i = startLine; i <= endLine; i++) templateOf[i] = group.template ?? group.fingerprint;
+    }
+  }
+  return {
+    names: [...top.map((group) => group.template ?? group.fingerprint), OTHER_SERIES],
+    seriesOf: (line) => templateOf[line] ?? OTHER_SERIES,
+  };
+}
+
+// Counts every line that carries its own timestamp as one event, in buckets
+// of the smallest round size that yields at most `maxBuckets` buckets.
+export function buildTimeline(
+  log: string,
+  format: LogFormatName,
+  groups: ErrorGroup[],
+  splitBy: TimelineSplit,
+  maxBuckets = 60,
+): Timeline {
+  const lines = log.split("\n");
+  const events: { line: number; time: number }[] = [];
+  lines.forEach((line, i) => {
+    const timestamp = parseRecord(format, line).timestamp;
+    const time = timestamp === undefined ? undefined : parseTimestamp(timestamp);
+    if (time !== undefined) events.push({ line: i, time });
+  });
+  if (events.length === 0) return { buckets: [], series: [] };
+
+  // Reduced rather than spread into Math.min, which overflows the stack on large logs.
+  const first = events.reduce((min, event) => Math.min(min, event.time), Infinity);
+  const last = events.reduce((max, event) => Math.max(max, event.time), -Infinity);
+  const size =
+    BUCKET_SIZES.find((candidate) => (last - first) / candidate < maxBuckets) ??
+    Math.ceil((last - first + 1) / maxBuckets);
+  const origin = Math.floor(first / size) * size;
+  const count = Math.floor((last - origin) / size) + 1;
+
+  const buckets: TimelineBucket[] = Array.from({ length: count }, (_, i) => ({
+    start: origin + i * size,
+    end: origin + (i + 1) * size,
+    counts: {},
+  }));
+
+  const { names, seriesOf } = seriesPerLine(lines, format, groups, splitBy);
+  const used = new Set<string>();
+  for (const { line, time } of events) {
+    const bucket = buckets[Math.floor((time - origin) / size)];
+    const series = seriesOf(line);
+    bucket.counts[series] = (bucket.counts[series] ?? 0) + 1;
+    used.add(series);
+  }
+
+  return { buckets, series: names.filter((name) => used.has(name)) };
+}